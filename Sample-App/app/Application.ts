@@ -29,7 +29,13 @@ module JustinCredible.SampleApp.Application {
      * configure its controllers, services, etc.
      */
     function main(): void {
-        var versionInfo: Interfaces.VersionInfo;
+        var versionInfo: Interfaces.VersionInfo,
+            loggerConfig: Interfaces.LoggerConfig,
+            tokenRefreshConfig: Interfaces.TokenRefreshConfig,
+            authConfig: Interfaces.AuthConfig,
+            httpCacheConfig: Interfaces.HttpCacheConfig,
+            apiEnvironmentsConfig: Interfaces.ApiEnvironmentsConfig,
+            circuitBreakerConfig: Interfaces.CircuitBreakerConfig;
 
         // Set the default error handler for all uncaught exceptions.
         window.onerror = window_onerror;
@@ -47,6 +53,98 @@ module JustinCredible.SampleApp.Application {
             buildTimestamp: window.buildVars.buildTimestamp
         };
 
+        loggerConfig = {
+            // Record everything for debug builds, but skip the noisy debug entries for release builds.
+            minimumLevel: window.buildVars.debug ? Models.LogLevel.Debug : Models.LogLevel.Info,
+
+            // Keep the logs small enough that the logs view remains usable on devices.
+            retentionPolicy: {
+                maxEntries: 500,
+                maxTotalBytes: 2 * 1024 * 1024,
+                maxAgeInDays: 14
+            },
+
+            // Keep the most recent breadcrumbs to attach to error entries.
+            maxBreadcrumbs: 25,
+
+            // Keep the most recent timings (HTTP requests, view transitions, etc) for the performance summary.
+            maxTimings: 500,
+
+            // Remove credentials and other sensitive values before entries are written.
+            redaction: {
+                replacement: "[REDACTED]",
+                headers: ["Authorization", "X-API-Key"],
+                bodyPaths: ["**.token", "**.pin", "**.password", "**.refreshToken", "**.access_token", "**.refresh_token"],
+                patterns: [
+                    { pattern: /\b(Basic|Bearer)\s+[A-Za-z0-9\-._~+\/]+=*/g, replacement: "$1 [REDACTED]" },
+                    { pattern: /([?&](?:token|pin|password|refresh_token|code|code_verifier)=)[^&#]*/gi, replacement: "$1[REDACTED]" },
+                    { pattern: /(\/tokens\/)(?!refresh\b)[^\/?#\s]+/gi, replacement: "$1[REDACTED]" }
+                ]
+            },
+
+            // Upload warnings and errors to the server in batches.
+            shipping: {
+                enabled: true,
+                levels: [Models.LogLevel.Warn, Models.LogLevel.Error, Models.LogLevel.Fatal],
+                maxBatchSize: 50,
+                intervalInSeconds: 5 * 60,
+                retryDelayInSeconds: 30,
+                maxRetryDelayInSeconds: 30 * 60
+            }
+        };
+
+        // The servers that host our API; the environment can be changed via the development tools.
+        // Requests to the partner APIs are signed with the key stored for the environment.
+        apiEnvironmentsConfig = {
+            defaultEnvironment: "prod",
+            environments: [
+                { name: "dev", label: "Development", baseUrl: "https://dev.sample-app.justin-credible.net/api", apiVersion: "1.0", mock: false, signing: { keyId: "sample-app-dev", paths: ["~/partners"] } },
+                { name: "staging", label: "Staging", baseUrl: "https://staging.sample-app.justin-credible.net/api", apiVersion: "1.0", mock: false, signing: { keyId: "sample-app-staging", paths: ["~/partners"] } },
+                { name: "prod", label: "Production", baseUrl: "https://sample-app.justin-credible.net/api", apiVersion: "1.0", mock: false, signing: { keyId: "sample-app", paths: ["~/partners"] } },
+                { name: "mock", label: "Local Mock", baseUrl: "http://localhost/api", apiVersion: "1.0", mock: true }
+            ]
+        };
+
+        // Select how requests to our API endpoints are authenticated (see Interfaces.AuthStrategy).
+        authConfig = {
+            strategy: "BasicAuthStrategy",
+            apiKey: {
+                headerName: "X-API-Key",
+                key: null
+            },
+            oauth2: {
+                authorizationUrl: "https://sample-app.justin-credible.net/oauth/authorize",
+                tokenUrl: "https://sample-app.justin-credible.net/oauth/token",
+                clientId: "sample-app",
+                redirectUri: "https://sample-app.justin-credible.net/oauth/callback",
+                scope: "api offline_access"
+            }
+        };
+
+        // When the server rejects our token, attempt to get a new one before logging the user out.
+        tokenRefreshConfig = {
+            enabled: true,
+            url: "~/tokens/refresh",
+            statuses: [401, 403]
+        };
+
+        // Cache the responses to API GET requests according to their caching headers. Responses
+        // are kept separately for each user and version of the API.
+        httpCacheConfig = {
+            enabled: true,
+            maxEntries: 100,
+            keyHeaders: ["Accept", "X-API-Version", "Authorization"]
+        };
+
+        // Stop sending API requests to a server that keeps failing, and try again after a cooldown.
+        circuitBreakerConfig = {
+            enabled: true,
+            failureThreshold: 5,
+            cooldownInSeconds: 30,
+            failureStatuses: [0, 500, 502, 503, 504],
+            groupByEndpoint: false
+        };
+
         // Define the top level Angular module for the application.
         ngModule = angular.module("JustinCredible.SampleApp.Application", ["ui.router", "ionic", "ngMockE2E"]);
 
@@ -54,15 +152,40 @@ module JustinCredible.SampleApp.Application {
         ngModule.constant("isRipple", !!(window.parent && window.parent.ripple));
         ngModule.constant("isDebug", window.buildVars.debug);
         ngModule.constant("versionInfo", versionInfo);
-        ngModule.constant("apiVersion", "1.0");
+        ngModule.constant("apiEnvironmentsConfig", apiEnvironmentsConfig);
+        ngModule.constant("loggerConfig", loggerConfig);
+        ngModule.constant("tokenRefreshConfig", tokenRefreshConfig);
+        ngModule.constant("authConfig", authConfig);
+        ngModule.constant("httpCacheConfig", httpCacheConfig);
+        ngModule.constant("circuitBreakerConfig", circuitBreakerConfig);
 
         // Define each of the services.
         ngModule.service("Utilities", Services.Utilities);
         ngModule.service("FileUtilities", Services.FileUtilities);
+        ngModule.service("FileUploader", Services.FileUploader);
+        ngModule.service("CryptoUtilities", Services.CryptoUtilities);
+        ngModule.service("Redactor", Services.Redactor);
         ngModule.service("Logger", Services.Logger);
+        ngModule.service("LogShipper", Services.LogShipper);
+        ngModule.service("Diagnostics", Services.Diagnostics);
+        ngModule.service("Symbolicator", Services.Symbolicator);
         ngModule.service("Preferences", Services.Preferences);
+        ngModule.service("ApiEnvironments", Services.ApiEnvironments);
+        ngModule.service("MockRouter", Services.MockRouter);
+        ngModule.service("MockBackend", Services.MockBackend);
         ngModule.service("MockApis", Services.MockApis);
+        ngModule.service("BasicAuthStrategy", Services.BasicAuthStrategy);
+        ngModule.service("BearerAuthStrategy", Services.BearerAuthStrategy);
+        ngModule.service("OAuth2AuthStrategy", Services.OAuth2AuthStrategy);
+        ngModule.service("ApiKeyAuthStrategy", Services.ApiKeyAuthStrategy);
+        ngModule.service("Authenticator", Services.Authenticator);
+        ngModule.service("RequestQueue", Services.RequestQueue);
+        ngModule.service("HttpCache", Services.HttpCache);
+        ngModule.service("HttpDeduplicator", Services.HttpDeduplicator);
+        ngModule.service("CircuitBreaker", Services.CircuitBreaker);
+        ngModule.service("RequestSigner", Services.RequestSigner);
         ngModule.factory("HttpInterceptor", Services.HttpInterceptor.getFactory());
+        ngModule.service("ApiClient", Services.ApiClient);
         ngModule.service("UiHelper", Services.UiHelper);
 
         // Define each of the directives.
@@ -143,22 +266,22 @@ module JustinCredible.SampleApp.Application {
     /**
      * The main initialize/run function for Angular; fired once the AngularJs framework is done loading.
      */
-    function angular_initialize($rootScope: ng.IScope, $location: ng.ILocationService, $ionicViewService: any, $ionicPlatform: Ionic.IPlatform, Utilities: Services.Utilities, UiHelper: Services.UiHelper, Preferences: Services.Preferences, MockApis: Services.MockApis): void {
+    function angular_initialize($rootScope: ng.IScope, $location: ng.ILocationService, $ionicViewService: any, $ionicPlatform: Ionic.IPlatform, Utilities: Services.Utilities, UiHelper: Services.UiHelper, Preferences: Services.Preferences, MockApis: Services.MockApis, Logger: Services.Logger, LogShipper: Services.LogShipper, RequestQueue: Services.RequestQueue, ApiEnvironments: Services.ApiEnvironments): void {
 
         // Once AngularJs has loaded we'll wait for the Ionic platform's ready event.
         // This event will be fired once the device ready event fires via Cordova.
         $ionicPlatform.ready(function () {
-            ionicPlatform_ready($rootScope, $location, $ionicViewService, $ionicPlatform, UiHelper, Utilities, Preferences, MockApis);
+            ionicPlatform_ready($rootScope, $location, $ionicViewService, $ionicPlatform, UiHelper, Utilities, Preferences, MockApis, Logger, LogShipper, RequestQueue);
         });
 
         if (Utilities.isRipple) {
             // If we are in the Ripple emulator, Cordova will never fire it's ready event which
             // means Ionic will never fire it's platform ready. We'll do it here manually.
-            ionicPlatform_ready($rootScope, $location, $ionicViewService, $ionicPlatform, UiHelper, Utilities, Preferences, MockApis);
+            ionicPlatform_ready($rootScope, $location, $ionicViewService, $ionicPlatform, UiHelper, Utilities, Preferences, MockApis, Logger, LogShipper, RequestQueue);
         }
 
-        // Mock up or allow HTTP responses.
-        MockApis.mockHttpCalls(Preferences.enableMockHttpCalls);
+        // Mock up or allow HTTP responses; the local mock environment is always mocked.
+        MockApis.mockHttpCalls(Preferences.enableMockHttpCalls || ApiEnvironments.getCurrent().mock);
     };
 
     /**
@@ -167,7 +290,7 @@ module JustinCredible.SampleApp.Application {
      * Note that this will not fire in the Ripple emulator because it relies
      * on the Codrova device ready event.
      */
-    function ionicPlatform_ready($rootScope: ng.IScope, $location: ng.ILocationService, $ionicViewService: any, $ionicPlatform: Ionic.IPlatform, UiHelper: Services.UiHelper, Utilities: Services.Utilities, Preferences: Services.Preferences, MockApis: Services.MockApis): void {
+    function ionicPlatform_ready($rootScope: ng.IScope, $location: ng.ILocationService, $ionicViewService: any, $ionicPlatform: Ionic.IPlatform, UiHelper: Services.UiHelper, Utilities: Services.Utilities, Preferences: Services.Preferences, MockApis: Services.MockApis, Logger: Services.Logger, LogShipper: Services.LogShipper, RequestQueue: Services.RequestQueue): void {
 
         // Mock up APIs for the various platforms. This allows us to "polyfill" functionality
         // that isn't available on all platforms.
@@ -185,18 +308,27 @@ module JustinCredible.SampleApp.Application {
         //window.StatusBar.styleLightContent();
         //window.StatusBar.overlaysWebView(false);
 
+        // Prune any log entries that have accumulated beyond the retention policy's limits.
+        Logger.enforceRetentionPolicy();
+
+        // Start periodically uploading log entries to the server.
+        LogShipper.start();
+
+        // Send any requests that were queued while offline, and again whenever the device reconnects.
+        RequestQueue.start();
+
         // Subscribe to device events.
-        document.addEventListener("pause", _.bind(device_pause, null, Preferences));
-        document.addEventListener("resume", _.bind(device_resume, null, $location, $ionicViewService, Utilities, UiHelper, Preferences));
+        document.addEventListener("pause", _.bind(device_pause, null, Preferences, Logger));
+        document.addEventListener("resume", _.bind(device_resume, null, $location, $ionicViewService, Utilities, UiHelper, Preferences, Logger));
         document.addEventListener("menubutton", _.bind(device_menuButton, null, $rootScope));
 
         // Subscribe to Angular events.
-        $rootScope.$on("$locationChangeStart", angular_locationChangeStart);
+        $rootScope.$on("$locationChangeStart", _.bind(angular_locationChangeStart, null, Logger));
 
         // Now that the platform is ready, we'll delegate to the resume event.
         // We do this so the same code that fires on resume also fires when the
         // application is started for the first time.
-        device_resume($location, $ionicViewService, Utilities, UiHelper, Preferences);
+        device_resume($location, $ionicViewService, Utilities, UiHelper, Preferences, Logger);
     }
 
     /**
@@ -223,6 +355,12 @@ module JustinCredible.SampleApp.Application {
         // Register our custom interceptor with the HTTP provider so we can hook into AJAX request events.
         $httpProvider.interceptors.push("HttpInterceptor");
 
+        // Share a single request between identical GET requests that are made at the same time.
+        Services.HttpDeduplicator.decorateHttp($provide);
+
+        // Send requests that upload files from local storage using the FileTransfer plugin.
+        Services.FileUploader.decorateHttpBackend($provide);
+
         // Setup all of the client side routes and their controllers and views.
         setupAngularRoutes($stateProvider, $urlRouterProvider);
 
@@ -355,7 +493,9 @@ module JustinCredible.SampleApp.Application {
      * Fired when the OS decides to minimize or pause the application. This usually
      * occurs when the user presses the device's home button or switches applications.
      */
-    function device_pause(Preferences: Services.Preferences): void {
+    function device_pause(Preferences: Services.Preferences, Logger: Services.Logger): void {
+
+        Logger.addBreadcrumb("device", "Application paused.");
 
         if (!isShowingPinPrompt) {
             // Store the current date/time. This will be used to determine if we need to
@@ -369,7 +509,9 @@ module JustinCredible.SampleApp.Application {
      * when the user launches an app that is already open or uses the OS task manager
      * to switch back to the application.
      */
-    function device_resume($location: ng.ILocationService, $ionicViewService: any, Utilities: Services.Utilities, UiHelper: Services.UiHelper, Preferences: Services.Preferences): void {
+    function device_resume($location: ng.ILocationService, $ionicViewService: any, Utilities: Services.Utilities, UiHelper: Services.UiHelper, Preferences: Services.Preferences, Logger: Services.Logger): void {
+
+        Logger.addBreadcrumb("device", "Application resumed.");
 
         isShowingPinPrompt = true;
 
@@ -407,9 +549,11 @@ module JustinCredible.SampleApp.Application {
     /**
      * Fired when Angular's route/location (eg URL hash) is changing.
      */
-    function angular_locationChangeStart(event: ng.IAngularEvent, newRoute: string, oldRoute: string): void {
+    function angular_locationChangeStart(Logger: Services.Logger, event: ng.IAngularEvent, newRoute: string, oldRoute: string): void {
         console.log("Location change, old Route: " + oldRoute);
         console.log("Location change, new Route: " + newRoute);
+
+        Logger.addBreadcrumb("navigation", "Navigated to " + newRoute);
     };
 
     /**
@@ -7,12 +7,29 @@
      * model object type, and injecting the view model and controller onto the
      * scope object for use in views.
      * 
+     * It also records the duration of each transition to the view (from the
+     * beforeEnter event to the afterEnter event) using the Logger, and provides
+     * a cancellation token for the HTTP requests made by the controller, which
+     * is cancelled when the scope is destroyed.
+     * 
      * T - The parameter type for the model.
      */
     export class BaseController<T> {
         public scope: ng.IScope;
         public viewModel: T;
 
+        /**
+         * A token that is cancelled when this controller's scope is destroyed. This should be
+         * passed via the cancellationToken property of HTTP requests made by the controller so
+         * they are aborted (and any blocking UI is removed) once the view is gone.
+         */
+        public cancellationToken: Models.CancellationToken;
+
+        /**
+         * The ID of the Logger timer for the transition to this view that is in progress.
+         */
+        private viewTransitionTimerId: string;
+
         constructor(scope: ng.IScope, ModelType: { new (): T; }) {
             // Save a reference to Angular's scope object.
             this.scope = scope;
@@ -20,6 +37,8 @@
             // Create the view model.
             this.viewModel = new ModelType();
 
+            this.cancellationToken = new Models.CancellationToken();
+
             /*tslint:disable no-string-literals*/
 
             // Push the view model onto the scope so it can be
@@ -43,6 +62,12 @@
             this.scope.$on("$ionicView.unloaded", _.bind(this.view_unloaded, this));
             this.scope.$on("$destroy", _.bind(this.destroy, this));
 
+            // These are subscribed separately from the overridable events above, since
+            // descendants may not be delegating to the base implementations.
+            this.scope.$on("$ionicView.beforeEnter", _.bind(this.viewTransition_beforeEnter, this));
+            this.scope.$on("$ionicView.afterEnter", _.bind(this.viewTransition_afterEnter, this));
+            this.scope.$on("$destroy", _.bind(this.cancellation_destroy, this));
+
             // Now that everything else is done, we can initialize.
             // We defer here so that the initialize event occurs after the constructor
             // of the child class has had a chance to execute.
@@ -151,5 +176,57 @@
             // No logic should be placed here, since TypeScript 1.0 does not currently support
             // protected members, so descendants may not be delegating to this method.
         }
+
+        /**
+         * Used to get the Logger service; controllers are not required to inject it, so we
+         * retrieve it from the application's injector instead.
+         */
+        private getLogger(): Services.Logger {
+            return angular.element(document.body).injector().get("Logger");
+        }
+
+        /**
+         * Starts timing the transition to this view.
+         * 
+         * View events bubble up to the scopes of parent views (eg the menu), so events
+         * for other views are ignored.
+         */
+        private viewTransition_beforeEnter(event: ng.IAngularEvent, viewData: any): void {
+            var Logger: Services.Logger;
+
+            if (event.targetScope !== this.scope) {
+                return;
+            }
+
+            Logger = this.getLogger();
+
+            // If the previous transition never completed, then it shouldn't be recorded.
+            if (this.viewTransitionTimerId) {
+                Logger.cancelTimer(this.viewTransitionTimerId);
+            }
+
+            this.viewTransitionTimerId = Logger.startTimer("view", viewData && viewData.stateName ? viewData.stateName : window.location.hash);
+        }
+
+        /**
+         * Stops timing the transition to this view, which records the timing entry.
+         */
+        private viewTransition_afterEnter(event: ng.IAngularEvent): void {
+
+            if (event.targetScope !== this.scope || !this.viewTransitionTimerId) {
+                return;
+            }
+
+            this.getLogger().stopTimer(this.viewTransitionTimerId);
+            this.viewTransitionTimerId = null;
+        }
+
+        /**
+         * Cancels this controller's cancellation token, which aborts any of its requests that
+         * are still in progress.
+         */
+        private cancellation_destroy(): void {
+            this.cancellationToken.cancel("The view was destroyed.");
+        }
     }
 }
\ No newline at end of file
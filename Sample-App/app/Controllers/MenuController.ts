@@ -6,15 +6,17 @@
 
     export class MenuController extends BaseController<ViewModels.MenuViewModel> implements IMenuController {
 
-        public static $inject = ["$scope", "$location", "$http", "Utilities", "UiHelper", "Preferences"];
+        public static $inject = ["$scope", "$location", "$http", "Utilities", "UiHelper", "Preferences", "Authenticator", "CircuitBreaker"];
 
         private $location: ng.ILocationService;
         private $http: ng.IHttpService;
         private Utilities: Services.Utilities;
         private UiHelper: Services.UiHelper;
         private Preferences: Services.Preferences;
+        private Authenticator: Services.Authenticator;
+        private CircuitBreaker: Services.CircuitBreaker;
 
-        constructor($scope: ng.IScope, $location: ng.ILocationService, $http: ng.IHttpService, Utilities: Services.Utilities, UiHelper: Services.UiHelper, Preferences: Services.Preferences) {
+        constructor($scope: ng.IScope, $location: ng.ILocationService, $http: ng.IHttpService, Utilities: Services.Utilities, UiHelper: Services.UiHelper, Preferences: Services.Preferences, Authenticator: Services.Authenticator, CircuitBreaker: Services.CircuitBreaker) {
             super($scope, ViewModels.MenuViewModel);
 
             this.$location = $location;
@@ -22,12 +24,17 @@
             this.Utilities = Utilities;
             this.UiHelper = UiHelper;
             this.Preferences = Preferences;
+            this.Authenticator = Authenticator;
+            this.CircuitBreaker = CircuitBreaker;
 
             this.viewModel.categories = this.Utilities.categories;
+            this.viewModel.isServiceDegraded = this.CircuitBreaker.isDegraded();
 
             $scope.$on("http.unauthorized", _.bind(this.http_unauthorized, this));
             $scope.$on("http.forbidden", _.bind(this.http_forbidden, this));
             $scope.$on("http.notFound", _.bind(this.http_notFound, this));
+            $scope.$on("requestQueue.queued", _.bind(this.requestQueue_queued, this));
+            $scope.$on("circuitBreaker.changed", _.bind(this.circuitBreaker_changed, this));
         }
 
         //#region Event Handlers
@@ -35,17 +42,16 @@
         private http_unauthorized() {
 
             // Unauthorized should mean that a token wasn't sent, but we'll null these out anyways.
-            this.Preferences.userId = null;
-            this.Preferences.token = null;
+            this.Authenticator.clearCredentials();
 
             this.UiHelper.toast.showLongBottom("You do not have a token (401); please login.");
         }
 
         private http_forbidden() {
 
-            // A token was sent, but was no longer valid. Null out the invalid token.
-            this.Preferences.userId = null;
-            this.Preferences.token = null;
+            // A token was sent, but was no longer valid and the HttpInterceptor was unable to
+            // refresh it. Null out the invalid token.
+            this.Authenticator.clearCredentials();
 
             this.UiHelper.toast.showLongBottom("Your token has expired (403); please login again.");
         }
@@ -55,6 +61,16 @@
             this.UiHelper.toast.showLongBottom("Server not available (404); please contact your administrator.");
         }
 
+        private requestQueue_queued() {
+            // The request was saved by the RequestQueue and will be sent once we're back online.
+            this.UiHelper.toast.showLongBottom("You appear to be offline; your changes will be sent once your connection is restored.");
+        }
+
+        private circuitBreaker_changed(event: ng.IAngularEvent, circuit: Models.Circuit, isDegraded: boolean) {
+            // Requests to a failing service are being rejected by the CircuitBreaker; let the user know.
+            this.viewModel.isServiceDegraded = isDegraded;
+        }
+
         //#endregion
 
         //#region Controller Methods
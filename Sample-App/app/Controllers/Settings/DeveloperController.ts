@@ -6,37 +6,71 @@
 
     export class DeveloperController extends BaseController<ViewModels.DeveloperViewModel> implements IDeveloperController {
 
-        public static $inject = ["$scope", "$http", "Utilities", "UiHelper", "FileUtilities", "Logger", "Preferences", "MockApis"];
+        public static $inject = ["$scope", "Utilities", "UiHelper", "FileUtilities", "FileUploader", "Logger", "LogShipper", "Symbolicator", "Preferences", "Authenticator", "RequestQueue", "HttpCache", "ApiEnvironments", "ApiClient", "RequestSigner", "MockApis"];
 
-        private $http: ng.IHttpService;
         private Utilities: Services.Utilities;
         private UiHelper: Services.UiHelper;
         private FileUtilities: Services.FileUtilities;
+        private FileUploader: Services.FileUploader;
         private Logger: Services.Logger;
+        private LogShipper: Services.LogShipper;
+        private Symbolicator: Services.Symbolicator;
         private Preferences: Services.Preferences;
+        private Authenticator: Services.Authenticator;
+        private RequestQueue: Services.RequestQueue;
+        private HttpCache: Services.HttpCache;
+        private ApiEnvironments: Services.ApiEnvironments;
+        private ApiClient: Services.ApiClient;
+        private RequestSigner: Services.RequestSigner;
         private MockApis: Services.MockApis;
 
-        constructor($scope: ng.IScope, $http: ng.IHttpService, Utilities: Services.Utilities, UiHelper: Services.UiHelper, FileUtilities: Services.FileUtilities, Logger: Services.Logger, Preferences: Services.Preferences, MockApis: Services.MockApis) {
+        constructor($scope: ng.IScope, Utilities: Services.Utilities, UiHelper: Services.UiHelper, FileUtilities: Services.FileUtilities, FileUploader: Services.FileUploader, Logger: Services.Logger, LogShipper: Services.LogShipper, Symbolicator: Services.Symbolicator, Preferences: Services.Preferences, Authenticator: Services.Authenticator, RequestQueue: Services.RequestQueue, HttpCache: Services.HttpCache, ApiEnvironments: Services.ApiEnvironments, ApiClient: Services.ApiClient, RequestSigner: Services.RequestSigner, MockApis: Services.MockApis) {
             super($scope, ViewModels.DeveloperViewModel);
 
-            this.$http = $http;
             this.Utilities = Utilities;
             this.UiHelper = UiHelper;
             this.FileUtilities = FileUtilities;
+            this.FileUploader = FileUploader;
             this.Logger = Logger;
+            this.LogShipper = LogShipper;
+            this.Symbolicator = Symbolicator;
             this.Preferences = Preferences;
+            this.Authenticator = Authenticator;
+            this.RequestQueue = RequestQueue;
+            this.HttpCache = HttpCache;
+            this.ApiEnvironments = ApiEnvironments;
+            this.ApiClient = ApiClient;
+            this.RequestSigner = RequestSigner;
             this.MockApis = MockApis;
+
+            $scope.$on("requestQueue.changed", _.bind(this.requestQueue_changed, this));
         }
 
         //#region BaseController Overrides
 
         public view_beforeEnter(): void {
             this.viewModel.mockApiRequests = this.Preferences.enableMockHttpCalls;
+            this.viewModel.environments = this.ApiEnvironments.getEnvironments();
+
+            this.refreshEnvironment();
+            this.refreshAuthInfo();
+            this.viewModel.cachedResponseCount = this.HttpCache.getCount();
 
             this.viewModel.devicePlatform = device.platform;
             this.viewModel.loggingToLocalStorage = this.Logger.getLogToLocalStorage() + "";
             this.viewModel.defaultStoragePathId = this.FileUtilities.getDefaultRootPathId();
             this.viewModel.defaultStoragePath = this.FileUtilities.getDefaultRootPath();
+
+            this.refreshTimings();
+            this.refreshQueuedRequests();
+        }
+
+        //#endregion
+
+        //#region Event Handlers
+
+        private requestQueue_changed() {
+            this.refreshQueuedRequests();
         }
 
         //#endregion
@@ -57,6 +91,122 @@
             }
         }
 
+        /**
+         * Updates the selected API environment and its details shown in the view.
+         */
+        private refreshEnvironment(): void {
+            var environment = this.ApiEnvironments.getCurrent();
+
+            this.viewModel.environmentName = environment.name;
+            this.viewModel.environmentBaseUrl = environment.baseUrl;
+            this.viewModel.environmentApiVersion = environment.apiVersion;
+
+            this.refreshSigningKey();
+        }
+
+        /**
+         * Updates whether the selected API environment has a signing key shown in the view.
+         */
+        private refreshSigningKey(): void {
+            var environment = this.ApiEnvironments.getCurrent();
+
+            this.viewModel.signingKeyId = environment.signing ? environment.signing.keyId : null;
+            this.viewModel.signingKeyStatus = null;
+
+            if (!environment.signing) {
+                return;
+            }
+
+            this.RequestSigner.hasKey(environment.name).then((hasKey: boolean) => {
+                this.viewModel.signingKeyStatus = hasKey ? "Stored" : "Not Stored";
+            }, () => {
+                this.viewModel.signingKeyStatus = "Unavailable";
+            });
+        }
+
+        /**
+         * Updates the authentication strategy and token expiration shown in the view.
+         */
+        /**
+         * Signs in via the mocked ~/tokens endpoint (see Services.MockRoutes) as the user ID
+         * that is entered, and stores the token that it issues.
+         */
+        private signInWithMockApi(): void {
+
+            this.UiHelper.prompt("Enter the user ID to sign in as.", "Sign In", ["OK", "Cancel"], "demo").then((result: Models.KeyValuePair<string, string>) => {
+                var request: DataTypes.TokenCreateRequest;
+
+                if (result.key !== "OK") {
+                    return;
+                }
+
+                request = {
+                    userId: result.value,
+                    password: "password"
+                };
+
+                this.ApiClient.send(Services.ApiEndpoints.tokens.create, {}, request).then((tokenResponse: DataTypes.TokenResponse) => {
+                    this.Preferences.userId = request.userId;
+                    this.Preferences.token = tokenResponse.token;
+                    this.Preferences.tokenExpiresAt = tokenResponse.expires ? moment(tokenResponse.expires) : null;
+
+                    this.refreshAuthInfo();
+                    this.UiHelper.alert("Signed in successfully.");
+                }, (error: Models.ApiError) => {
+                    this.UiHelper.alert("Unable to sign in: " + error.message);
+                });
+            });
+        }
+
+        private refreshAuthInfo(): void {
+            var tokenExpiresAt = this.Preferences.tokenExpiresAt;
+
+            this.viewModel.authStrategy = this.Authenticator.getStrategyName();
+            this.viewModel.tokenExpiresAt = tokenExpiresAt ? tokenExpiresAt.format("YYYY-MM-DD HH:mm:ss") : "Unknown";
+        }
+
+        /**
+         * Updates the performance summaries (per route and per endpoint) from the Logger.
+         */
+        private refreshTimings(): void {
+            var summaries = this.Logger.getTimingSummaries();
+
+            this.viewModel.routeTimings = _.where(summaries, { category: "view" });
+            this.viewModel.endpointTimings = _.where(summaries, { category: "http" });
+        }
+
+        /**
+         * Updates the list of requests that are waiting in the RequestQueue.
+         */
+        private refreshQueuedRequests(): void {
+            this.viewModel.queuedRequests = _.map(this.RequestQueue.getRequests(), (request: Models.QueuedRequest) => {
+                var details: string;
+
+                details = this.Utilities.format("Queued {0}; {1} attempt(s)", moment(request.createdAt).format("YYYY-MM-DD HH:mm:ss"), request.attempts);
+
+                if (request.lastError) {
+                    details += "; " + request.lastError;
+                }
+
+                return new ViewModels.QueuedRequestViewModel(request.id, request.method + " " + request.url, Models.QueuedRequestStatus[request.status], details);
+            });
+        }
+
+        /**
+         * Formats the given stack frames for display, one frame per line. Frames that were
+         * mapped to a TypeScript source are shown using the source location.
+         */
+        private formatStackFrames(frames: Models.StackFrame[]): string {
+            return _.map(frames, (frame: Models.StackFrame) => {
+                if (frame.sourceFileName) {
+                    return this.Utilities.format("at {0} ({1}:{2}:{3})", frame.sourceFunctionName || frame.functionName || "<anonymous>", frame.sourceFileName, frame.sourceLineNumber, frame.sourceColumnNumber);
+                }
+                else {
+                    return frame.source;
+                }
+            }).join("\n");
+        }
+
         //#endregion
 
         //#region Controller Methods
@@ -75,6 +225,73 @@
             });
         }
 
+        public environment_change() {
+            var previous = this.ApiEnvironments.getCurrent(),
+                environment: Interfaces.ApiEnvironment,
+                message: string;
+
+            environment = this.ApiEnvironments.setCurrent(this.viewModel.environmentName);
+            this.refreshEnvironment();
+
+            // The mocked responses are registered when the application starts, so switching
+            // to or from the local mock environment requires a reload (unless everything is
+            // being mocked anyway).
+            if (environment.mock !== previous.mock && !this.Preferences.enableMockHttpCalls) {
+                message = "The application needs to be reloaded for changes to take effect.\n\nReload now?";
+
+                this.UiHelper.confirm(message, "Confirm Reload").then((result: string) => {
+                    if (result === "Yes") {
+                        document.location.href = "index.html";
+                    }
+                });
+
+                return;
+            }
+
+            this.UiHelper.toast.showShortBottom(this.Utilities.format("API requests will now be sent to {0}.", environment.label));
+        }
+
+        public setSigningKey_click() {
+            var environment = this.ApiEnvironments.getCurrent(),
+                message: string;
+
+            message = this.Utilities.format("Enter the Base64 encoded signing key for {0} ({1}).", environment.label, environment.signing.keyId);
+
+            this.UiHelper.prompt(message, "Set Signing Key").then((result: Models.KeyValuePair<string, string>) => {
+
+                if (result.key !== "OK") {
+                    return;
+                }
+
+                this.RequestSigner.setKey(environment.name, result.value).then(() => {
+                    this.refreshSigningKey();
+                    this.UiHelper.toast.showShortBottom("The signing key was stored.");
+                }, (error: Error) => {
+                    this.UiHelper.alert(error && error.message ? error.message : "The signing key could not be stored.");
+                });
+            });
+        }
+
+        public clearSigningKey_click() {
+            var environment = this.ApiEnvironments.getCurrent(),
+                message: string;
+
+            message = this.Utilities.format("Remove the signing key for {0}? Signed requests will fail until a key is set again.", environment.label);
+
+            this.UiHelper.confirm(message, "Clear Signing Key").then((result: string) => {
+
+                if (result !== "Yes") {
+                    return;
+                }
+
+                this.RequestSigner.removeKey(environment.name).then(() => {
+                    this.refreshSigningKey();
+                }, (error: Error) => {
+                    this.UiHelper.alert(error && error.message ? error.message : "The signing key could not be removed.");
+                });
+            });
+        }
+
         public setLoggingMode_click() {
             var message: string;
 
@@ -114,6 +331,80 @@
             });
         }
 
+        public shipLogs_click() {
+            this.LogShipper.ship().then((count: number) => {
+                this.UiHelper.alert(this.Utilities.format("{0} log entries were shipped to the server.", count));
+            }, (error: any) => {
+                this.UiHelper.alert("Unable to ship logs: " + (error && error.message ? error.message : "the request failed."));
+            });
+        }
+
+        public symbolicateLatestError_click() {
+            this.Logger.getLogs().then((logEntries: Models.LogEntry[]) => {
+                var logEntry: Models.LogEntry;
+
+                // Find the most recent entry that has a stack trace.
+                logEntry = _.last(_.sortBy(_.filter(logEntries, (entry: Models.LogEntry) => {
+                    return entry.error != null && entry.error.frames != null && entry.error.frames.length > 0;
+                }), "timestamp"));
+
+                if (!logEntry) {
+                    this.UiHelper.alert("There are no logged errors with a stack trace.");
+                    return;
+                }
+
+                this.Symbolicator.symbolicate(logEntry.error.frames).then((frames: Models.StackFrame[]) => {
+                    var stack: string,
+                        message: string;
+
+                    if (!_.any(frames, "sourceFileName")) {
+                        this.UiHelper.alert("The stack trace could not be mapped; source maps are only available in debug builds.");
+                        return;
+                    }
+
+                    stack = logEntry.message + "\n" + (logEntry.error.message || "") + "\n" + this.formatStackFrames(frames);
+                    message = this.Utilities.format("{0}\n\nCopy to the clipboard?", stack);
+
+                    this.UiHelper.confirm(message, "Symbolicated Stack Trace").then((result: string) => {
+                        if (result === "Yes") {
+                            this.Utilities.clipboard.copy(stack, () => {
+                                this.UiHelper.toast.showShortBottom("Stack trace copied to clipboard!");
+                            }, null);
+                        }
+                    });
+                });
+            });
+        }
+
+        public refreshTimings_click() {
+            this.refreshTimings();
+        }
+
+        public clearTimings_click() {
+            this.Logger.clearTimings();
+            this.refreshTimings();
+        }
+
+        public sendQueuedRequests_click() {
+            this.RequestQueue.flush(true).then((count: number) => {
+                this.UiHelper.alert(this.Utilities.format("{0} queued requests were sent to the server.", count));
+            }, (error: any) => {
+                this.UiHelper.alert("Unable to send queued requests: " + (error && error.message ? error.message : "the request failed."));
+            });
+        }
+
+        public removeQueuedRequest_click(id: string) {
+            this.RequestQueue.remove(id);
+        }
+
+        public clearQueuedRequests_click() {
+            this.UiHelper.confirm("Discard all of the queued requests without sending them?").then((result: string) => {
+                if (result === "Yes") {
+                    this.RequestQueue.clear();
+                }
+            });
+        }
+
         public addModulesToGlobalScope_click() {
             /*tslint:disable no-string-literals*/
             window["__FileUtilities"] = this.FileUtilities;
@@ -180,19 +471,59 @@
         }
 
         public apiGetToken_click() {
-            var httpConfig: Interfaces.RequestConfig;
+            var options: Interfaces.RequestOptions;
 
-            httpConfig = {
-                method: "GET",
-                url: "~/tokens/" + this.Preferences.token,
-                data: null,
+            options = {
                 blocking: true,
-                blockingText: "Retrieving Token Info..."
+                blockingText: "Retrieving Token Info...",
+                cancellationToken: this.cancellationToken
             };
 
-            this.$http(httpConfig).then((response: ng.IHttpPromiseCallbackArg<DataTypes.TokenResponse>) => {
-                var message = this.Utilities.format("Token: {0}\nExpires: {1}", response.data.token, response.data.expires);
+            this.ApiClient.send(Services.ApiEndpoints.tokens.get, { token: this.Preferences.token }, null, options).then((tokenResponse: DataTypes.TokenResponse) => {
+                var message = this.Utilities.format("Token: {0}\nExpires: {1}", tokenResponse.token, tokenResponse.expires);
                 this.UiHelper.alert(message);
+            }, (error: Models.ApiError) => {
+                if (error.type !== Models.ApiErrorType.Cancelled) {
+                    this.UiHelper.alert("Unable to retrieve the token: " + error.message);
+                }
+            });
+        }
+
+        public clearCache_click() {
+            this.HttpCache.clear();
+            this.viewModel.cachedResponseCount = this.HttpCache.getCount();
+            this.UiHelper.toast.showShortBottom("The HTTP cache has been cleared.");
+        }
+
+        public resetMockData_click() {
+            var message = "Discard all of the changes made while API requests were mocked and restore the fixture data?";
+
+            this.UiHelper.confirm(message, "Reset Mock Data").then((result: string) => {
+                if (result === "Yes") {
+                    this.MockApis.resetMockData();
+
+                    // Cached responses may contain data that no longer exists.
+                    this.HttpCache.clear();
+                    this.viewModel.cachedResponseCount = this.HttpCache.getCount();
+
+                    this.UiHelper.toast.showShortBottom("The mock data has been reset.");
+                }
+            });
+        }
+
+        public signIn_click() {
+
+            // The sign in endpoint is mocked, so any credentials can be used to start a session.
+            if (this.Preferences.enableMockHttpCalls || this.ApiEnvironments.getCurrent().mock) {
+                this.signInWithMockApi();
+                return;
+            }
+
+            this.Authenticator.login().then(() => {
+                this.refreshAuthInfo();
+                this.UiHelper.alert("Signed in successfully.");
+            }, (error: any) => {
+                this.UiHelper.alert(error && error.message ? error.message : "Unable to sign in.");
             });
         }
 
@@ -450,6 +781,33 @@
             });
         }
 
+        public uploadFile_click() {
+            var config: Interfaces.UploadConfig;
+
+            this.UiHelper.prompt("Enter path of file to upload", "File I/O Test", null, "/").then((result: Models.KeyValuePair<string, string>) => {
+
+                if (result.key !== "OK") {
+                    return;
+                }
+
+                config = {
+                    method: "POST",
+                    url: "~/uploads",
+                    blocking: true,
+                    blockingText: "Uploading File...",
+                    progressBar: true,
+                    progress: (progress: Interfaces.TransferProgress) => {
+                        console.log(this.Utilities.format("UPLOAD PROGRESS {0} of {1} bytes", progress.loaded, progress.total));
+                    },
+                    cancellationToken: this.cancellationToken
+                };
+
+                this.FileUploader.upload(result.value, config)
+                    .then((response: ng.IHttpPromiseCallbackArg<any>) => { console.log("UPLOAD OK"); this.UiHelper.alert("UPLOAD OK"); },
+                    (response: ng.IHttpPromiseCallbackArg<any>) => { console.error(response); this.UiHelper.alert("UPLOAD FAILED: " + response.status); });
+            });
+        }
+
         //#endregion
     }
 }
\ No newline at end of file
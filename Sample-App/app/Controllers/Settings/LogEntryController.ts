@@ -59,26 +59,19 @@
             this.viewModel.httpStatus = logEntry.httpStatus;
             this.viewModel.httpStatusText = logEntry.httpStatusText;
             this.viewModel.httpUrl = logEntry.httpUrl;
+            this.viewModel.httpRequestId = logEntry.httpRequestId;
+            this.viewModel.httpSessionId = logEntry.httpSessionId;
+            this.viewModel.tags = logEntry.tags;
+            this.viewModel.breadcrumbs = logEntry.breadcrumbs;
+
+            // Entries written before levels were introduced are treated as errors.
+            this.viewModel.level = logEntry.level == null ? Models.LogLevel.Error : logEntry.level;
+            this.viewModel.levelName = Models.LogLevel[this.viewModel.level];
+            this.viewModel.iconType = this.UiHelper.getLogLevelIcon(this.viewModel.level);
 
             // Format the date and time for display.
             this.viewModel.time = moment(logEntry.timestamp).format("h:mm:ss a");
             this.viewModel.date = formattedDate = moment(logEntry.timestamp).format("l");
-
-            if (logEntry.error == null) {
-                // If an error object isn't present, then this is likely one of the
-                // unhandled JS exceptions (eg window.onerror).
-                this.viewModel.iconType = "alert";
-            }
-            else {
-                // If an error object is present then this error either came from Angular
-                // or it was a manually logged error object.
-                this.viewModel.iconType = "alert-circled";
-            }
-
-            // If this error has HTTP data, then it came from a RESTful API request.
-            if (logEntry.httpUrl) {
-                this.viewModel.iconType = "android-wifi";
-            }
         }
 
         //#endregion
@@ -6,18 +6,46 @@
 
     export class LogsController extends BaseController<ViewModels.LogsViewModel> implements ILogsController {
 
-        public static $inject = ["$scope", "Logger", "Utilities", "UiHelper"];
+        public static $inject = ["$scope", "Logger", "Diagnostics", "Utilities", "UiHelper"];
+
+        /**
+         * The number of log entries that are shown at a time; more are shown as the user scrolls.
+         */
+        private static PAGE_SIZE = 50;
+
+        /**
+         * The filter is kept between instances of this controller so that it is retained
+         * while the user navigates to a log entry and back.
+         */
+        private static filter: Models.LogFilter;
 
         private Logger: Services.Logger;
+        private Diagnostics: Services.Diagnostics;
         private Utilities: Services.Utilities;
         private UiHelper: Services.UiHelper;
 
-        constructor($scope: ng.IScope, Logger: Services.Logger, Utilities: Services.Utilities, UiHelper: Services.UiHelper) {
+        private logEntries: Models.LogEntry[];
+        private filteredLogEntries: Models.LogEntry[];
+        private shownCount: number;
+
+        constructor($scope: ng.IScope, Logger: Services.Logger, Diagnostics: Services.Diagnostics, Utilities: Services.Utilities, UiHelper: Services.UiHelper) {
             super($scope, ViewModels.LogsViewModel);
 
             this.Logger = Logger;
+            this.Diagnostics = Diagnostics;
             this.Utilities = Utilities;
             this.UiHelper = UiHelper;
+
+            this.logEntries = [];
+            this.filteredLogEntries = [];
+            this.shownCount = 0;
+
+            if (!LogsController.filter) {
+                LogsController.filter = new Models.LogFilter();
+            }
+
+            this.viewModel.filter = LogsController.filter;
+            this.viewModel.levels = this.createLevelOptions(this.viewModel.filter);
         }
 
         //#region BaseController Overrides
@@ -36,71 +64,206 @@
                 logEntries = [];
             }
 
-            this.viewModel.logs = {};
-
             // First, lets sort by the time stamp ascending, then reverse
             // it so we have the most recent log entries at the top.
-            logEntries = _.sortBy(logEntries, "timestamp").reverse();
-
-            // Now use the actual log entry to create the view model.
-            logEntries.forEach((logEntry: Models.LogEntry) => {
-                var formattedDate: string,
-                    viewModel: ViewModels.LogEntryViewModel;
-
-                viewModel = new ViewModels.LogEntryViewModel();
-                viewModel.id = logEntry.id;
-                viewModel.message = logEntry.message;
-                viewModel.lineNumber = logEntry.lineNumber;
-                viewModel.colNumber = logEntry.colNumber;
-                viewModel.uri = logEntry.uri;
-                viewModel.error = logEntry.error;
-
-                // Format the date and time for display.
-                viewModel.time = moment(logEntry.timestamp).format("h:mm:ss a");
-                formattedDate = moment(logEntry.timestamp).format("l");
-                viewModel.date = formattedDate;
-
-                if (logEntry.error == null) {
-                    // If an error object isn't present, then this is likely one of the
-                    // unhandled JS exceptions (eg window.onerror).
-                    viewModel.iconType = "alert";
-                }
-                else {
-                    // If an error object is present then this error either came from Angular
-                    // or it was a manually logged error object.
-                    viewModel.iconType = "alert-circled";
-                }
+            this.logEntries = _.sortBy(logEntries, "timestamp").reverse();
 
-                // If this error has HTTP response data, then it came from a RESTful API request.
-                if (logEntry.httpUrl) {
-                    viewModel.iconType = "android-wifi";
-                }
+            this.applyFilter();
+        }
+
+        private getLogs_failure(error: Error): void {
+            this.UiHelper.toast.showShortBottom("An error occurred while retrieving the logs.");
+        }
+
+        /**
+         * Used to create the options for the level filter buttons.
+         * 
+         * @param filter The filter which determines which of the levels are selected.
+         * @returns An option for each of the log levels.
+         */
+        private createLevelOptions(filter: Models.LogFilter): ViewModels.LogLevelOptionViewModel[] {
+            var levels = [Models.LogLevel.Debug, Models.LogLevel.Info, Models.LogLevel.Warn, Models.LogLevel.Error, Models.LogLevel.Fatal];
 
-                // The view model is a dictionary of formatted dates to an
-                // array of log entries that happened on that date. So first,
-                // we'll make sure the array exists for this date...
-                if (!this.viewModel.logs[formattedDate]) {
-                    this.viewModel.logs[formattedDate] = [];
+            return _.map(levels, (level: Models.LogLevel) => {
+                var option = new ViewModels.LogLevelOptionViewModel();
+
+                option.level = level;
+                option.name = Models.LogLevel[level];
+                option.selected = _.contains(filter.levels, level);
+
+                return option;
+            });
+        }
+
+        /**
+         * Applies the current filter to the log entries and shows the first page of matches.
+         */
+        private applyFilter(): void {
+            this.filteredLogEntries = this.Logger.filterLogs(this.logEntries, this.viewModel.filter);
+
+            this.viewModel.totalCount = this.logEntries.length;
+            this.viewModel.matchCount = this.filteredLogEntries.length;
+            this.viewModel.logGroups = [];
+            this.shownCount = 0;
+
+            this.showNextPage();
+        }
+
+        /**
+         * Adds the next page of filtered log entries to the view model, grouped by date.
+         */
+        private showNextPage(): void {
+            var page: Models.LogEntry[];
+
+            page = this.filteredLogEntries.slice(this.shownCount, this.shownCount + LogsController.PAGE_SIZE);
+
+            page.forEach((logEntry: Models.LogEntry) => {
+                var viewModel = this.createLogEntryViewModel(logEntry),
+                    logGroup = _.last(this.viewModel.logGroups);
+
+                // The entries are sorted by date, so we only need to start a new group
+                // when the date changes from the last entry that was added.
+                if (!logGroup || logGroup.date !== viewModel.date) {
+                    logGroup = new ViewModels.LogGroupViewModel();
+                    logGroup.date = viewModel.date;
+                    this.viewModel.logGroups.push(logGroup);
                 }
 
-                // ... then we'll push this entry into that days collection.
-                this.viewModel.logs[formattedDate].push(viewModel);
+                logGroup.logEntries.push(viewModel);
             });
+
+            this.shownCount += page.length;
+            this.viewModel.hasMore = this.shownCount < this.filteredLogEntries.length;
         }
 
-        private getLogs_failure(error: Error): void {
-            this.UiHelper.toast.showShortBottom("An error occurred while retrieving the logs.");
+        /**
+         * Creates a diagnostic bundle, writes it to disk, and then lets the user choose how
+         * it should be shared.
+         * 
+         * @param filter The filter for the log entries to include, or null to include all of them.
+         */
+        private sendDiagnostics(filter: Models.LogFilter): void {
+            var bundle: Interfaces.DiagnosticBundle,
+                share: (path: string) => void;
+
+            share = (path: string) => {
+                var message: string;
+
+                message = path ? this.Utilities.format("The diagnostic bundle was saved to {0}.\n\nHow would you like to send it?", path)
+                    : "How would you like to send the diagnostic bundle?";
+
+                this.UiHelper.confirm(message, "Send Diagnostics", ["E-mail", "Copy", "Cancel"]).then((result: string) => {
+                    if (result === "E-mail") {
+                        if (!this.Diagnostics.emailBundle(bundle, path)) {
+                            this.UiHelper.toast.showLongBottom("The bundle is too large to e-mail in full; use Copy to send all of it.");
+                        }
+                    }
+                    else if (result === "Copy") {
+                        this.Diagnostics.copyBundle(bundle).then(() => {
+                            this.UiHelper.toast.showShortBottom("Diagnostics copied to clipboard!");
+                        });
+                    }
+                });
+            };
+
+            this.Diagnostics.createBundle(filter).then((result: Interfaces.DiagnosticBundle) => {
+                bundle = result;
+
+                // The bundle can still be shared even if it couldn't be written to disk.
+                this.Diagnostics.saveBundle(bundle).then(share, () => {
+                    share(null);
+                });
+
+            }, () => {
+                this.UiHelper.toast.showShortBottom("An error occurred while creating the diagnostic bundle.");
+            });
+        }
+
+        private createLogEntryViewModel(logEntry: Models.LogEntry): ViewModels.LogEntryViewModel {
+            var viewModel: ViewModels.LogEntryViewModel;
+
+            viewModel = new ViewModels.LogEntryViewModel();
+            viewModel.id = logEntry.id;
+            viewModel.message = logEntry.message;
+            viewModel.lineNumber = logEntry.lineNumber;
+            viewModel.colNumber = logEntry.colNumber;
+            viewModel.uri = logEntry.uri;
+            viewModel.error = logEntry.error;
+            viewModel.httpStatus = logEntry.httpStatus;
+
+            // Entries written before levels were introduced are treated as errors.
+            viewModel.level = logEntry.level == null ? Models.LogLevel.Error : logEntry.level;
+            viewModel.levelName = Models.LogLevel[viewModel.level];
+            viewModel.iconType = this.UiHelper.getLogLevelIcon(viewModel.level);
+
+            // Format the date and time for display.
+            viewModel.time = moment(logEntry.timestamp).format("h:mm:ss a");
+            viewModel.date = moment(logEntry.timestamp).format("l");
+
+            return viewModel;
         }
 
         //#endregion
 
         //#region Controller Methods
 
+        public loadMore_infinite(): void {
+            this.showNextPage();
+            this.scope.$broadcast("scroll.infiniteScrollComplete");
+        }
+
+        public filter_change(): void {
+            this.applyFilter();
+        }
+
+        public level_click(option: ViewModels.LogLevelOptionViewModel): void {
+            option.selected = !option.selected;
+
+            this.viewModel.filter.levels = _.pluck(_.filter(this.viewModel.levels, "selected"), "level");
+
+            this.applyFilter();
+        }
+
+        public toggleFilters_click(): void {
+            this.viewModel.showFilters = !this.viewModel.showFilters;
+        }
+
+        public clearFilters_click(): void {
+            LogsController.filter = new Models.LogFilter();
+
+            this.viewModel.filter = LogsController.filter;
+            this.viewModel.levels = this.createLevelOptions(this.viewModel.filter);
+
+            this.applyFilter();
+        }
+
+        public sendDiagnostics_click(): void {
+            var message: string;
+
+            // If the filter excludes some entries, let the user choose which to include.
+            if (this.viewModel.matchCount < this.viewModel.totalCount) {
+                message = "Include all of the log entries or only those that match the current filter?";
+
+                this.UiHelper.confirm(message, "Send Diagnostics", ["All", "Filtered", "Cancel"]).then((result: string) => {
+                    if (result === "All") {
+                        this.sendDiagnostics(null);
+                    }
+                    else if (result === "Filtered") {
+                        this.sendDiagnostics(this.viewModel.filter);
+                    }
+                });
+            }
+            else {
+                this.sendDiagnostics(null);
+            }
+        }
+
         public clearLogs() {
             this.UiHelper.confirm("Are you sure you want to delete the logs?", "Delete Logs").then((result: string) => {
                 if (result === "Yes") {
                     this.Logger.clearLogs();
-                    this.viewModel.logs = {};
+                    this.logEntries = [];
+                    this.applyFilter();
                 }
             });
         }
@@ -0,0 +1,35 @@
+﻿module JustinCredible.SampleApp.Models {
+
+    /**
+     * Describes one of the endpoints of our API, for use with the ApiClient service; see
+     * Services.ApiEndpoints for the endpoints that are available.
+     * 
+     * The type parameters describe the parameters, the request body, and the response body of
+     * the endpoint so that calls made via the ApiClient are strongly typed.
+     */
+    export class ApiEndpoint<TParams, TRequest, TResponse> {
+
+        /**
+         * The HTTP method of the endpoint (eg GET).
+         */
+        public method: string;
+
+        /**
+         * The API URL of the endpoint, with a placeholder for each path parameter (eg
+         * ~/categories/:id). Parameters that don't have a placeholder are sent in the query string.
+         */
+        public path: string;
+
+        /**
+         * The flags that are used for each request to the endpoint unless the caller overrides them.
+         */
+        public defaults: Interfaces.RequestOptions;
+
+        constructor(method: string, path: string, defaults?: Interfaces.RequestOptions) {
+            this.method = method;
+            this.path = path;
+            this.defaults = defaults || {};
+        }
+    }
+
+}
\ No newline at end of file
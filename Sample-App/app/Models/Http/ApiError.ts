@@ -0,0 +1,54 @@
+﻿module JustinCredible.SampleApp.Models {
+
+    /**
+     * The error that requests made via the ApiClient are rejected with. The type describes why
+     * the request failed, and the rest of the failed response is kept for callers that need it.
+     */
+    export class ApiError implements Error {
+
+        public name: string;
+        public message: string;
+
+        public type: ApiErrorType;
+
+        /**
+         * The method and path of the endpoint (eg GET ~/tokens/:token).
+         */
+        public endpoint: string;
+
+        /**
+         * The status code of the response, or 0 if the server wasn't reached.
+         */
+        public status: number;
+
+        public statusText: string;
+
+        /**
+         * The body of the response (eg a description of the validation errors).
+         */
+        public data: any;
+
+        /**
+         * The correlation ID that the request was sent with; see Interfaces.RequestConfig.requestId.
+         */
+        public requestId: string;
+
+        /**
+         * The ID of the request in the RequestQueue, if it was queued to be sent again later.
+         */
+        public queuedRequestId: string;
+
+        constructor(type: ApiErrorType, message: string, endpoint: string) {
+            this.name = "ApiError";
+            this.type = type;
+            this.message = message;
+            this.endpoint = endpoint;
+            this.status = 0;
+            this.statusText = null;
+            this.data = null;
+            this.requestId = null;
+            this.queuedRequestId = null;
+        }
+    }
+
+}
\ No newline at end of file
@@ -0,0 +1,70 @@
+﻿module JustinCredible.SampleApp.Models {
+
+    /**
+     * The reasons that a request made via the ApiClient can fail; see Models.ApiError.
+     */
+    export enum ApiErrorType {
+
+        /**
+         * The response didn't match any of the other types.
+         */
+        Unknown = 0,
+
+        /**
+         * The server couldn't be reached (eg the device is offline).
+         */
+        Network = 1,
+
+        /**
+         * The request took longer than its timeout.
+         */
+        Timeout = 2,
+
+        /**
+         * The request was cancelled via its cancellation token.
+         */
+        Cancelled = 3,
+
+        /**
+         * The request was not sent because the CircuitBreaker considers the service to be down.
+         */
+        ServiceUnavailable = 4,
+
+        /**
+         * The server rejected the request body or parameters (400 or 422).
+         */
+        Validation = 5,
+
+        /**
+         * The request did not include valid credentials (401).
+         */
+        Unauthorized = 6,
+
+        /**
+         * The credentials don't allow access to the resource (403).
+         */
+        Forbidden = 7,
+
+        /**
+         * The resource doesn't exist (404).
+         */
+        NotFound = 8,
+
+        /**
+         * The request conflicts with the current state of the resource (409).
+         */
+        Conflict = 9,
+
+        /**
+         * The server encountered an error (500 range).
+         */
+        Server = 10,
+
+        /**
+         * The request was not sent because it could not be signed (eg the signing key of the
+         * environment isn't available); see Services.RequestSigner.
+         */
+        Unsigned = 11
+    }
+
+}
\ No newline at end of file
@@ -0,0 +1,52 @@
+﻿module JustinCredible.SampleApp.Models {
+
+    /**
+     * Describes a response to a GET request that is stored in the HttpCache.
+     */
+    export class CacheEntry {
+
+        /**
+         * Identifies the request; this is made up of the URL, query parameters, and the
+         * values of the headers listed in the cache configuration.
+         */
+        public key: string;
+
+        /**
+         * The URL of the request, without the query parameters.
+         */
+        public url: string;
+
+        public status: number;
+        public statusText: string;
+        public headers: { [name: string]: string };
+        public data: any;
+
+        /**
+         * The time at which the response was received or last revalidated.
+         */
+        public storedAt: Date;
+
+        /**
+         * The time after which the response is stale and must be revalidated; this is based
+         * on the Cache-Control (max-age) or Expires headers of the response.
+         */
+        public expiresAt: Date;
+
+        /**
+         * The value of the response's ETag header, which is sent back in If-None-Match.
+         */
+        public etag: string;
+
+        /**
+         * The value of the response's Last-Modified header, which is sent back in If-Modified-Since.
+         */
+        public lastModified: string;
+
+        /**
+         * The time at which the response was last served; used to evict the least recently
+         * used entries.
+         */
+        public lastAccessedAt: Date;
+    }
+
+}
\ No newline at end of file
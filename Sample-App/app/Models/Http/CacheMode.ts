@@ -0,0 +1,34 @@
+﻿module JustinCredible.SampleApp.Models {
+
+    /**
+     * The ways in which the HttpCache can be used for a GET request to one of our API
+     * endpoints; see Interfaces.RequestConfig.cacheMode.
+     */
+    export enum CacheMode {
+
+        /**
+         * Follows the response's caching headers: fresh responses are served from the cache,
+         * stale responses are revalidated with the server, and stale responses are served if
+         * the server can't be reached.
+         */
+        Default = 0,
+
+        /**
+         * Always makes the request; the cache is neither read nor written.
+         */
+        NetworkOnly = 1,
+
+        /**
+         * Serves the cached response (even if it is stale) without making the request. The
+         * request is only made if there is no cached response.
+         */
+        CacheFirst = 2,
+
+        /**
+         * Serves the cached response (even if it is stale) immediately, and if it is stale,
+         * revalidates it in the background so the next request gets the updated response.
+         */
+        StaleWhileRevalidate = 3
+    }
+
+}
\ No newline at end of file
@@ -0,0 +1,73 @@
+﻿module JustinCredible.SampleApp.Models {
+
+    /**
+     * Used to signal that the operations it was given to (eg HTTP requests via the
+     * cancellationToken property of Interfaces.RequestConfig) should be cancelled.
+     * 
+     * Each controller has a token which is cancelled when its scope is destroyed; see
+     * BaseController.cancellationToken.
+     */
+    export class CancellationToken {
+
+        public isCancelled: boolean;
+
+        /**
+         * A description of why the token was cancelled.
+         */
+        public reason: string;
+
+        private callbacks: { (reason: string): void }[];
+
+        constructor() {
+            this.isCancelled = false;
+            this.reason = null;
+            this.callbacks = [];
+        }
+
+        /**
+         * Used to cancel the token, which invokes each of the registered callbacks. Subsequent
+         * calls have no effect.
+         * 
+         * @param reason An optional description of why the token was cancelled.
+         */
+        public cancel(reason?: string): void {
+            var callbacks: { (reason: string): void }[];
+
+            if (this.isCancelled) {
+                return;
+            }
+
+            this.isCancelled = true;
+            this.reason = reason || "The operation was cancelled.";
+
+            callbacks = this.callbacks;
+            this.callbacks = [];
+
+            _.each(callbacks, (callback: (reason: string) => void) => {
+                callback(this.reason);
+            });
+        }
+
+        /**
+         * Used to register a callback that will be invoked when the token is cancelled. If the
+         * token has already been cancelled, the callback is invoked immediately.
+         * 
+         * @param callback The function to invoke with the reason for the cancellation.
+         * @returns A function that can be used to unregister the callback.
+         */
+        public register(callback: (reason: string) => void): () => void {
+
+            if (this.isCancelled) {
+                callback(this.reason);
+                return angular.noop;
+            }
+
+            this.callbacks.push(callback);
+
+            return () => {
+                this.callbacks = _.without(this.callbacks, callback);
+            };
+        }
+    }
+
+}
\ No newline at end of file
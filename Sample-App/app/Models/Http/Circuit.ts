@@ -0,0 +1,37 @@
+﻿module JustinCredible.SampleApp.Models {
+
+    /**
+     * Describes the state of the requests to one host or endpoint group as tracked by the
+     * CircuitBreaker.
+     */
+    export class Circuit {
+
+        /**
+         * The host or endpoint group the circuit applies to (eg sample-app.justin-credible.net ~/categories).
+         */
+        public key: string;
+
+        public state: CircuitState;
+
+        /**
+         * The number of consecutive requests that have failed.
+         */
+        public failureCount: number;
+
+        /**
+         * The time at which the circuit was last opened, or null if it is closed.
+         */
+        public openedAt: Date;
+
+        /**
+         * The time at which a probe request is allowed, or null if the circuit is closed.
+         */
+        public retryAt: Date;
+
+        /**
+         * True while the probe request of a half-open circuit is in progress.
+         */
+        public isProbing: boolean;
+    }
+
+}
\ No newline at end of file
@@ -0,0 +1,30 @@
+﻿module JustinCredible.SampleApp.Models {
+
+    /**
+     * The error that a request is rejected with when the CircuitBreaker did not allow it to be
+     * sent. It is available via the data property of the rejected response, whose status is 0.
+     */
+    export class CircuitOpenError implements Error {
+
+        public name: string;
+        public message: string;
+
+        /**
+         * The host or endpoint group whose circuit is open.
+         */
+        public circuitKey: string;
+
+        /**
+         * The time at which the request can be attempted again.
+         */
+        public retryAt: Date;
+
+        constructor(circuitKey: string, retryAt: Date) {
+            this.name = "CircuitOpenError";
+            this.message = "The request was not sent because the service is unavailable; it can be attempted again " + moment(retryAt).fromNow() + ".";
+            this.circuitKey = circuitKey;
+            this.retryAt = retryAt;
+        }
+    }
+
+}
\ No newline at end of file
@@ -0,0 +1,26 @@
+﻿module JustinCredible.SampleApp.Models {
+
+    /**
+     * The states that a circuit of the CircuitBreaker can be in.
+     */
+    export enum CircuitState {
+
+        /**
+         * Requests are sent normally.
+         */
+        Closed = 0,
+
+        /**
+         * Too many consecutive requests failed; requests fail immediately without being sent
+         * until the cooldown period has elapsed.
+         */
+        Open = 1,
+
+        /**
+         * The cooldown period has elapsed; a single probe request is sent to determine if the
+         * circuit should be closed again.
+         */
+        HalfOpen = 2
+    }
+
+}
\ No newline at end of file
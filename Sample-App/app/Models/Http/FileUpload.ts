@@ -0,0 +1,38 @@
+﻿module JustinCredible.SampleApp.Models {
+
+    /**
+     * Describes a local file that is sent as the data of an HTTP request. Requests with this
+     * as their data are sent using the FileTransfer plugin instead of an XMLHttpRequest; see
+     * the FileUploader service.
+     */
+    export class FileUpload {
+
+        /**
+         * The full URL of the file on the device (eg file:///storage/.../files/photo.jpg).
+         */
+        public fileUrl: string;
+
+        /**
+         * The name of the form element that the file is sent as.
+         */
+        public fileKey: string;
+
+        /**
+         * The file name that is sent to the server.
+         */
+        public fileName: string;
+
+        public mimeType: string;
+
+        /**
+         * Additional form fields that are sent along with the file.
+         */
+        public fields: { [name: string]: string };
+
+        /**
+         * Invoked as the file is sent with the number of bytes sent so far and the total number
+         * of bytes (or zero if the total isn't known). This is set by the HttpInterceptor.
+         */
+        public onProgress: (loaded: number, total: number) => void;
+    }
+}
\ No newline at end of file
@@ -0,0 +1,44 @@
+﻿module JustinCredible.SampleApp.Models {
+
+    /**
+     * Describes a mutating API request that could not be sent because the device was
+     * offline and is waiting in the RequestQueue to be sent again.
+     */
+    export class QueuedRequest {
+
+        public id: string;
+
+        /**
+         * The time at which the request was originally made.
+         */
+        public createdAt: Date;
+
+        public status: QueuedRequestStatus;
+
+        /**
+         * The HTTP method of the request (eg POST).
+         */
+        public method: string;
+
+        /**
+         * The URL of the request; this is always an API URL (eg ~/categories/1).
+         */
+        public url: string;
+
+        public params: any;
+        public data: any;
+
+        /**
+         * The number of times the request has been sent from the queue.
+         */
+        public attempts: number;
+
+        public lastAttemptAt: Date;
+
+        /**
+         * A description of why the most recent attempt failed, if it did.
+         */
+        public lastError: string;
+    }
+
+}
\ No newline at end of file
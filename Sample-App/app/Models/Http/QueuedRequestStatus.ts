@@ -0,0 +1,25 @@
+﻿module JustinCredible.SampleApp.Models {
+
+    /**
+     * The states that a request in the RequestQueue can be in.
+     */
+    export enum QueuedRequestStatus {
+
+        /**
+         * The request is waiting to be sent once the device is online.
+         */
+        Pending = 0,
+
+        /**
+         * The request is currently being sent.
+         */
+        Sending = 1,
+
+        /**
+         * The server rejected the request when it was sent; it will not be sent again
+         * automatically.
+         */
+        Failed = 2
+    }
+
+}
\ No newline at end of file
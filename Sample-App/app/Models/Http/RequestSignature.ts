@@ -0,0 +1,46 @@
+﻿module JustinCredible.SampleApp.Models {
+
+    /**
+     * Describes the HMAC-SHA256 signature that the RequestSigner added to a request.
+     */
+    export class RequestSignature {
+
+        /**
+         * Identifies the key that the request was signed with; see Interfaces.RequestSigningConfig.
+         */
+        public keyId: string;
+
+        /**
+         * The time at which the request was signed, in seconds since the epoch. This is adjusted
+         * by the difference between the device's clock and the server's.
+         */
+        public timestamp: number;
+
+        /**
+         * A random value that is unique to the request so the server can reject replays of it.
+         */
+        public nonce: string;
+
+        /**
+         * The hex encoded SHA-256 hash of the body of the request.
+         */
+        public bodyHash: string;
+
+        /**
+         * The method, path, timestamp, nonce, and body hash of the request, separated by new lines.
+         */
+        public stringToSign: string;
+
+        /**
+         * The Base64 encoded HMAC-SHA256 of the string to sign.
+         */
+        public signature: string;
+
+        /**
+         * The number of milliseconds that the server's clock was ahead of the device's (or behind,
+         * if negative) when the request was signed.
+         */
+        public clockOffsetInMilliseconds: number;
+    }
+
+}
\ No newline at end of file
@@ -0,0 +1,20 @@
+﻿module JustinCredible.SampleApp.Models {
+
+    /**
+     * Describes an event that occurred while the application was running (eg a route
+     * change or HTTP request). The most recent breadcrumbs are attached to error log
+     * entries to provide context about what led up to the error.
+     */
+    export class Breadcrumb {
+
+        public timestamp: Date;
+
+        /**
+         * The type of event; one of: navigation, http, dialog, or device.
+         */
+        public category: string;
+
+        public message: string;
+    }
+
+}
\ No newline at end of file
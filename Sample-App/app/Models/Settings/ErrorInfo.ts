@@ -0,0 +1,25 @@
+﻿module JustinCredible.SampleApp.Models {
+
+    /**
+     * A serializable representation of an error that was logged.
+     * 
+     * The message and stack properties of Error objects are not enumerable, so they are
+     * lost when serialized with JSON.stringify; the Logger copies them into this shape.
+     */
+    export class ErrorInfo {
+
+        public name: string;
+        public message: string;
+        public stack: string;
+
+        /**
+         * The stack trace parsed into individual frames, most recent call first.
+         */
+        public frames: StackFrame[];
+
+        constructor() {
+            this.frames = [];
+        }
+    }
+
+}
\ No newline at end of file
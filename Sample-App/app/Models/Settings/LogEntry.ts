@@ -5,19 +5,40 @@
         public id: string;
 
         public timestamp: Date;
+        public level: LogLevel;
         public message: string;
 
+        /**
+         * Arbitrary key/value pairs that provide additional context for the entry.
+         */
+        public tags: { [key: string]: any };
+
         public uri: string;
         public lineNumber: number;
         public colNumber: number;
 
-        public error: Error;
+        public error: ErrorInfo;
+
+        /**
+         * A snapshot of the most recent breadcrumbs at the time an error entry was written.
+         */
+        public breadcrumbs: Breadcrumb[];
 
         public httpUrl: string;
         public httpStatus: number;
         public httpStatusText: string;
         public httpHeaders: string;
         public httpBody: string;
+
+        /**
+         * The correlation ID that was sent to the server via the X-Request-ID header.
+         */
+        public httpRequestId: string;
+
+        /**
+         * The ID of the application session that was sent to the server via the X-Session-ID header.
+         */
+        public httpSessionId: string;
     }
 
 }
\ No newline at end of file
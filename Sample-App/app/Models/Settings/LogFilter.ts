@@ -0,0 +1,38 @@
+﻿module JustinCredible.SampleApp.Models {
+
+    /**
+     * Describes the criteria used to narrow down a set of log entries.
+     * 
+     * Any criteria that are not set (null, undefined, or empty) are ignored.
+     */
+    export class LogFilter {
+
+        /**
+         * Text to search for in the message, URLs, and error (not case sensitive).
+         */
+        public searchText: string;
+
+        /**
+         * Only entries with one of these levels will be included.
+         */
+        public levels: LogLevel[];
+
+        /**
+         * The HTTP status range (inclusive). When either bound is set, entries without
+         * an HTTP status are excluded.
+         */
+        public minHttpStatus: number;
+        public maxHttpStatus: number;
+
+        /**
+         * The date range (inclusive). Entries from any time on the end date are included.
+         */
+        public startDate: Date;
+        public endDate: Date;
+
+        constructor() {
+            this.levels = [];
+        }
+    }
+
+}
\ No newline at end of file
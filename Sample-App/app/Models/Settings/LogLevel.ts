@@ -0,0 +1,17 @@
+﻿module JustinCredible.SampleApp.Models {
+
+    /**
+     * The severity levels that can be used when writing log entries.
+     * 
+     * The values are ordered from least to most severe so that they can be
+     * compared against the minimum level configured for the Logger.
+     */
+    export enum LogLevel {
+        Debug = 0,
+        Info = 1,
+        Warn = 2,
+        Error = 3,
+        Fatal = 4
+    }
+
+}
\ No newline at end of file
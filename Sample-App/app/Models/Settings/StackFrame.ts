@@ -0,0 +1,28 @@
+﻿module JustinCredible.SampleApp.Models {
+
+    /**
+     * Describes a single frame of a parsed stack trace.
+     */
+    export class StackFrame {
+
+        public functionName: string;
+        public fileName: string;
+        public lineNumber: number;
+        public columnNumber: number;
+
+        /**
+         * The original line from the stack trace that this frame was parsed from.
+         */
+        public source: string;
+
+        /**
+         * The location in the TypeScript source that this frame maps to. These are only
+         * populated once the frame has been symbolicated using the build's source maps.
+         */
+        public sourceFileName: string;
+        public sourceLineNumber: number;
+        public sourceColumnNumber: number;
+        public sourceFunctionName: string;
+    }
+
+}
\ No newline at end of file
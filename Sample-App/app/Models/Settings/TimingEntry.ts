@@ -0,0 +1,29 @@
+﻿module JustinCredible.SampleApp.Models {
+
+    /**
+     * Describes how long an operation took (eg an HTTP request or a view transition).
+     */
+    export class TimingEntry {
+
+        /**
+         * The time at which the operation started.
+         */
+        public timestamp: Date;
+
+        /**
+         * The type of operation; eg http, view, or file.
+         */
+        public category: string;
+
+        /**
+         * Identifies the operation within its category (eg the endpoint or route).
+         */
+        public name: string;
+
+        /**
+         * The duration of the operation in milliseconds.
+         */
+        public duration: number;
+    }
+
+}
\ No newline at end of file
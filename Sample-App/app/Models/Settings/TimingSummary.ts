@@ -0,0 +1,26 @@
+﻿module JustinCredible.SampleApp.Models {
+
+    /**
+     * Describes the statistics for all of the timing entries with the same category and name.
+     * The durations are in milliseconds.
+     */
+    export class TimingSummary {
+
+        public category: string;
+        public name: string;
+        public count: number;
+
+        /**
+         * The median duration.
+         */
+        public p50: number;
+
+        /**
+         * The duration that 95% of the operations completed within.
+         */
+        public p95: number;
+
+        public max: number;
+    }
+
+}
\ No newline at end of file
@@ -0,0 +1,266 @@
+﻿module JustinCredible.SampleApp.Services {
+
+    /**
+     * Provides a strongly typed way to make requests to the endpoints of our API (see
+     * Services.ApiEndpoints) without building their URLs by hand.
+     * 
+     * Requests are made via the $http service, so they go through the HttpInterceptor like any
+     * other request. The parameters of a request are placed into the path of its endpoint or
+     * serialized into the query string; requests resolve with the body of the response and are
+     * rejected with a Models.ApiError.
+     */
+    export class ApiClient {
+
+        public static $inject = ["$q", "$http", "Utilities"];
+
+        private $q: ng.IQService;
+        private $http: ng.IHttpService;
+        private Utilities: Utilities;
+
+        constructor($q: ng.IQService, $http: ng.IHttpService, Utilities: Utilities) {
+            this.$q = $q;
+            this.$http = $http;
+            this.Utilities = Utilities;
+        }
+
+        //#region Public API
+
+        /**
+         * Used to make a request to the given endpoint.
+         * 
+         * @param endpoint The endpoint to make the request to (eg ApiEndpoints.tokens.get).
+         * @param params The path and query string parameters of the request.
+         * @param data The body of the request.
+         * @param options Flags for the request, which override the defaults of the endpoint.
+         * @returns A promise for the body of the response, which is rejected with a Models.ApiError.
+         */
+        public send<TParams, TRequest, TResponse>(endpoint: Models.ApiEndpoint<TParams, TRequest, TResponse>, params?: TParams, data?: TRequest, options?: Interfaces.RequestOptions): ng.IPromise<TResponse> {
+            var q = this.$q.defer<TResponse>(),
+                httpConfig: Interfaces.RequestConfig;
+
+            httpConfig = <Interfaces.RequestConfig>angular.extend({}, endpoint.defaults, options);
+            httpConfig.method = endpoint.method;
+
+            // A missing path parameter is reported like any other failed request.
+            try {
+                httpConfig.url = this.getUrl(endpoint, params);
+            } catch (exception) {
+                q.reject(this.createError(endpoint, exception));
+                return q.promise;
+            }
+
+            httpConfig.data = data == null ? null : data;
+
+            this.$http(httpConfig).then((httpResponse: ng.IHttpPromiseCallbackArg<TResponse>) => {
+                q.resolve(httpResponse.data);
+            }, (responseOrError: any) => {
+                q.reject(this.createError(endpoint, responseOrError));
+            });
+
+            return q.promise;
+        }
+
+        /**
+         * Used to get the URL for a request to the given endpoint with the given parameters.
+         * 
+         * @param endpoint The endpoint of the request.
+         * @param params The path and query string parameters of the request.
+         * @returns The API URL of the request (eg ~/categories/1?expand=items).
+         */
+        public getUrl<TParams, TRequest, TResponse>(endpoint: Models.ApiEndpoint<TParams, TRequest, TResponse>, params?: TParams): string {
+            var values: { [name: string]: any } = <any>params || {},
+                pathNames: string[] = [],
+                queryString: string,
+                url: string;
+
+            url = endpoint.path.replace(/:(\w+)/g, (match: string, name: string) => {
+                var value = values[name];
+
+                if (value == null || value === "") {
+                    throw new Error(this.Utilities.format("The '{0}' parameter is required for {1} {2}.", name, endpoint.method, endpoint.path));
+                }
+
+                pathNames.push(name);
+
+                return encodeURIComponent(this.serializeValue(value));
+            });
+
+            queryString = this.serializeQuery(<{ [name: string]: any }>_.omit(values, pathNames));
+
+            if (!queryString) {
+                return url;
+            }
+
+            return url + (url.indexOf("?") === -1 ? "?" : "&") + queryString;
+        }
+
+        //#endregion
+
+        //#region Private Helper Methods
+
+        /**
+         * Used to serialize the given parameters into a query string. Parameters are sorted by
+         * name so that the same parameters always produce the same URL (which helps the HttpCache
+         * and HttpDeduplicator). Arrays are sent as repeated parameters, and null or undefined
+         * values are omitted.
+         * 
+         * @param params The parameters to serialize.
+         * @returns The query string, without the leading question mark.
+         */
+        private serializeQuery(params: { [name: string]: any }): string {
+            var parts: string[] = [];
+
+            _.each(_.keys(params).sort(), (name: string) => {
+                var values: any[] = _.isArray(params[name]) ? params[name] : [params[name]];
+
+                _.each(values, (value: any) => {
+                    if (value != null) {
+                        parts.push(encodeURIComponent(name) + "=" + encodeURIComponent(this.serializeValue(value)));
+                    }
+                });
+            });
+
+            return parts.join("&");
+        }
+
+        /**
+         * Used to convert the given parameter value to a string. Dates are sent in ISO 8601
+         * format and objects are sent as JSON.
+         * 
+         * @param value The value to convert.
+         * @returns The value as a string.
+         */
+        private serializeValue(value: any): string {
+
+            if (_.isDate(value)) {
+                return (<Date>value).toISOString();
+            }
+
+            if (_.isObject(value)) {
+                return JSON.stringify(value);
+            }
+
+            return value + "";
+        }
+
+        /**
+         * Used to create the error that a failed request to the given endpoint is rejected with.
+         * 
+         * @param endpoint The endpoint of the request.
+         * @param responseOrError The failed response, or the exception that was thrown while making the request.
+         * @returns The error.
+         */
+        private createError<TParams, TRequest, TResponse>(endpoint: Models.ApiEndpoint<TParams, TRequest, TResponse>, responseOrError: any): Models.ApiError {
+            var endpointName = endpoint.method + " " + endpoint.path,
+                httpResponse: ng.IHttpPromiseCallbackArg<any>,
+                config: Interfaces.RequestConfig,
+                type: Models.ApiErrorType,
+                error: Models.ApiError;
+
+            if (responseOrError instanceof Error || !responseOrError || !responseOrError.config) {
+                return new Models.ApiError(Models.ApiErrorType.Unknown, responseOrError && responseOrError.message ? responseOrError.message : "The request could not be made.", endpointName);
+            }
+
+            httpResponse = <ng.IHttpPromiseCallbackArg<any>>responseOrError;
+            config = <Interfaces.RequestConfig>httpResponse.config;
+            type = this.getErrorType(httpResponse);
+
+            error = new Models.ApiError(type, this.getErrorMessage(type, httpResponse), endpointName);
+            error.status = httpResponse.status;
+            error.statusText = httpResponse.statusText || null;
+            error.data = httpResponse.data;
+            error.requestId = config.requestId || null;
+            error.queuedRequestId = config.queuedRequestId || null;
+
+            return error;
+        }
+
+        /**
+         * Used to determine why the given request failed.
+         * 
+         * @param httpResponse The failed response.
+         * @returns The type of the error.
+         */
+        private getErrorType(httpResponse: ng.IHttpPromiseCallbackArg<any>): Models.ApiErrorType {
+            var config = <Interfaces.RequestConfig>httpResponse.config,
+                status = httpResponse.status;
+
+            if (config.circuitOpen) {
+                return Models.ApiErrorType.ServiceUnavailable;
+            }
+            else if (config.signingFailed) {
+                return Models.ApiErrorType.Unsigned;
+            }
+            else if (config.cancelled) {
+                return Models.ApiErrorType.Cancelled;
+            }
+            else if (config.timedOut) {
+                return Models.ApiErrorType.Timeout;
+            }
+            else if (status === 0) {
+                return Models.ApiErrorType.Network;
+            }
+            else if (status === 400 || status === 422) {
+                return Models.ApiErrorType.Validation;
+            }
+            else if (status === 401) {
+                return Models.ApiErrorType.Unauthorized;
+            }
+            else if (status === 403) {
+                return Models.ApiErrorType.Forbidden;
+            }
+            else if (status === 404) {
+                return Models.ApiErrorType.NotFound;
+            }
+            else if (status === 409) {
+                return Models.ApiErrorType.Conflict;
+            }
+            else if (status >= 500) {
+                return Models.ApiErrorType.Server;
+            }
+            else {
+                return Models.ApiErrorType.Unknown;
+            }
+        }
+
+        /**
+         * Used to get a description of why the given request failed. If the server described
+         * the problem via a message property in the body of the response, that is used instead.
+         * 
+         * @param type The type of the error.
+         * @param httpResponse The failed response.
+         * @returns The message of the error.
+         */
+        private getErrorMessage(type: Models.ApiErrorType, httpResponse: ng.IHttpPromiseCallbackArg<any>): string {
+
+            if (httpResponse.data && typeof (httpResponse.data.message) === "string" && httpResponse.data.message) {
+                return httpResponse.data.message;
+            }
+
+            switch (type) {
+                case Models.ApiErrorType.Network:
+                    return "The server could not be reached.";
+                case Models.ApiErrorType.Timeout:
+                    return "The server took too long to respond.";
+                case Models.ApiErrorType.Cancelled:
+                    return "The request was cancelled.";
+                case Models.ApiErrorType.Validation:
+                    return "The request was not valid.";
+                case Models.ApiErrorType.Unauthorized:
+                    return "You need to sign in to do this.";
+                case Models.ApiErrorType.Forbidden:
+                    return "You do not have permission to do this.";
+                case Models.ApiErrorType.NotFound:
+                    return "The requested item could not be found.";
+                case Models.ApiErrorType.Conflict:
+                    return "The item was changed by someone else.";
+                case Models.ApiErrorType.Server:
+                    return "The server encountered an error.";
+                default:
+                    return this.Utilities.format("The request failed with a status of {0}.", httpResponse.status);
+            }
+        }
+
+        //#endregion
+    }
+}
\ No newline at end of file
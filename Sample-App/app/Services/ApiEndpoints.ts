@@ -0,0 +1,38 @@
+﻿module JustinCredible.SampleApp.Services {
+
+    /**
+     * Declares the endpoints of our API, grouped by resource, for use with the ApiClient service.
+     * 
+     * To add an endpoint, describe its parameters, request, and response via interfaces in
+     * DataTypes.d.ts and add a Models.ApiEndpoint for it here.
+     */
+    export class ApiEndpoints {
+
+        public static tokens = {
+            get: new Models.ApiEndpoint<DataTypes.TokenParams, void, DataTypes.TokenResponse>("GET", "~/tokens/:token"),
+            create: new Models.ApiEndpoint<{}, DataTypes.TokenCreateRequest, DataTypes.TokenResponse>("POST", "~/tokens", {
+
+                // Incorrect credentials are rejected with a 401, which shouldn't trigger a token refresh.
+                skipTokenRefresh: true
+            })
+        };
+
+        public static categories = {
+            list: new Models.ApiEndpoint<DataTypes.PageParams, void, DataTypes.PagedResponse<DataTypes.Category>>("GET", "~/categories"),
+            get: new Models.ApiEndpoint<DataTypes.CategoryParams, void, DataTypes.Category>("GET", "~/categories/:id"),
+            create: new Models.ApiEndpoint<{}, DataTypes.Category, DataTypes.Category>("POST", "~/categories"),
+            update: new Models.ApiEndpoint<DataTypes.CategoryParams, DataTypes.Category, DataTypes.Category>("PUT", "~/categories/:id"),
+            remove: new Models.ApiEndpoint<DataTypes.CategoryParams, void, void>("DELETE", "~/categories/:id")
+        };
+
+        public static logs = {
+            upload: new Models.ApiEndpoint<{}, DataTypes.LogUploadRequest, DataTypes.LogUploadResponse>("POST", "~/logs", {
+                blocking: false,
+                showSpinner: false,
+
+                // Logs are uploaded by the LogShipper, so uploading them shouldn't create more logs.
+                suppressLogging: true
+            })
+        };
+    }
+}
\ No newline at end of file
@@ -0,0 +1,86 @@
+﻿module JustinCredible.SampleApp.Services {
+
+    /**
+     * Provides the registry of environments that host our API (see Interfaces.ApiEnvironment)
+     * and keeps track of which one is currently selected.
+     * 
+     * The HttpInterceptor uses the current environment's base URL and API version when it
+     * rewrites URLs that start with a tilde, so changing the selection takes effect with the
+     * next request. The selection is persisted via the Preferences service.
+     * 
+     * Whenever the selection changes, the apiEnvironments.changed event is broadcast on the
+     * root scope.
+     */
+    export class ApiEnvironments {
+
+        public static $inject = ["$rootScope", "Preferences", "apiEnvironmentsConfig"];
+
+        private $rootScope: ng.IRootScopeService;
+        private Preferences: Preferences;
+        private config: Interfaces.ApiEnvironmentsConfig;
+
+        constructor($rootScope: ng.IRootScopeService, Preferences: Preferences, apiEnvironmentsConfig: Interfaces.ApiEnvironmentsConfig) {
+            this.$rootScope = $rootScope;
+            this.Preferences = Preferences;
+            this.config = apiEnvironmentsConfig;
+        }
+
+        //#region Public API
+
+        /**
+         * Used to get all of the environments that can be selected.
+         * 
+         * @returns A copy of the environments, in the order they were configured.
+         */
+        public getEnvironments(): Interfaces.ApiEnvironment[] {
+            return _.cloneDeep(this.config.environments);
+        }
+
+        /**
+         * Used to get the environment with the given name.
+         * 
+         * @param name The name of the environment.
+         * @returns The environment, or null if there isn't one with the given name.
+         */
+        public getEnvironment(name: string): Interfaces.ApiEnvironment {
+            return _.find(this.config.environments, { name: name }) || null;
+        }
+
+        /**
+         * Used to get the environment that API requests are currently sent to. If the persisted
+         * selection is no longer configured, the default environment is used instead.
+         * 
+         * @returns The current environment.
+         */
+        public getCurrent(): Interfaces.ApiEnvironment {
+            return this.getEnvironment(this.Preferences.apiEnvironment)
+                || this.getEnvironment(this.config.defaultEnvironment)
+                || _.first(this.config.environments);
+        }
+
+        /**
+         * Used to select the environment that API requests are sent to.
+         * 
+         * @param name The name of the environment to select.
+         * @returns The newly selected environment.
+         */
+        public setCurrent(name: string): Interfaces.ApiEnvironment {
+            var previous = this.getCurrent(),
+                environment = this.getEnvironment(name);
+
+            if (!environment) {
+                throw new Error("There is no API environment named '" + name + "'.");
+            }
+
+            this.Preferences.apiEnvironment = environment.name;
+
+            if (environment.name !== previous.name) {
+                this.$rootScope.$broadcast("apiEnvironments.changed", environment, previous);
+            }
+
+            return environment;
+        }
+
+        //#endregion
+    }
+}
\ No newline at end of file
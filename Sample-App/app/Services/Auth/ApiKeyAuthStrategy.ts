@@ -0,0 +1,43 @@
+﻿module JustinCredible.SampleApp.Services {
+
+    /**
+     * Authenticates requests by sending a static API key in the header specified via the
+     * apiKey section of the authConfig constant. API keys can't be refreshed, nor can the
+     * user sign in interactively.
+     */
+    export class ApiKeyAuthStrategy implements Interfaces.AuthStrategy {
+
+        public static $inject = ["$q", "authConfig"];
+
+        private $q: ng.IQService;
+        private config: Interfaces.ApiKeyConfig;
+
+        constructor($q: ng.IQService, authConfig: Interfaces.AuthConfig) {
+            this.$q = $q;
+            this.config = authConfig.apiKey;
+        }
+
+        //#region Public API
+
+        public applyCredentials(headers: { [name: string]: any }): boolean {
+
+            if (!this.config || !this.config.key) {
+                return false;
+            }
+
+            headers[this.config.headerName] = this.config.key;
+
+            return true;
+        }
+
+        public refresh(): ng.IPromise<void> {
+            return this.$q.reject(new Error("API keys cannot be refreshed."));
+        }
+
+        public login(): ng.IPromise<void> {
+            return this.$q.reject(new Error("Interactive login is not supported by this authentication strategy."));
+        }
+
+        //#endregion
+    }
+}
\ No newline at end of file
@@ -0,0 +1,21 @@
+﻿module JustinCredible.SampleApp.Services {
+
+    /**
+     * Authenticates requests using HTTP Basic authentication, where the user's ID and token
+     * are used as the user name and password.
+     * 
+     * http://en.wikipedia.org/wiki/Basic_access_authentication
+     */
+    export class BasicAuthStrategy extends TokenAuthStrategy {
+
+        public getAuthorizationHeader(userId: string, token: string): string {
+
+            if (!userId) {
+                return null;
+            }
+
+            // Base64 encode the user name and password concatenated with a colon and prepend "Basic".
+            return "Basic " + btoa(userId + ":" + token);
+        }
+    }
+}
\ No newline at end of file
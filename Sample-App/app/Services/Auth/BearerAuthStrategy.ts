@@ -0,0 +1,12 @@
+﻿module JustinCredible.SampleApp.Services {
+
+    /**
+     * Authenticates requests by sending the user's token as a bearer token (RFC 6750).
+     */
+    export class BearerAuthStrategy extends TokenAuthStrategy {
+
+        public getAuthorizationHeader(userId: string, token: string): string {
+            return "Bearer " + token;
+        }
+    }
+}
\ No newline at end of file
@@ -0,0 +1,187 @@
+﻿module JustinCredible.SampleApp.Services {
+
+    /**
+     * Authenticates requests using OAuth 2.0 bearer tokens obtained via the authorization code
+     * grant with Proof Key for Code Exchange (PKCE; RFC 7636).
+     * 
+     * The user signs in on the authorization server's page, which is shown in the InAppBrowser.
+     * Once the authorization server redirects to the configured redirect URI, the browser is
+     * closed and the authorization code is exchanged for an access token and refresh token.
+     * 
+     * The endpoints and client information are specified via the oauth2 section of the
+     * authConfig constant.
+     */
+    export class OAuth2AuthStrategy implements Interfaces.AuthStrategy {
+
+        public static $inject = ["$q", "$http", "Preferences", "CryptoUtilities", "Logger", "authConfig"];
+
+        private $q: ng.IQService;
+        private $http: ng.IHttpService;
+        private Preferences: Preferences;
+        private CryptoUtilities: CryptoUtilities;
+        private Logger: Logger;
+        private config: Interfaces.OAuth2Config;
+
+        constructor($q: ng.IQService, $http: ng.IHttpService, Preferences: Preferences, CryptoUtilities: CryptoUtilities, Logger: Logger, authConfig: Interfaces.AuthConfig) {
+            this.$q = $q;
+            this.$http = $http;
+            this.Preferences = Preferences;
+            this.CryptoUtilities = CryptoUtilities;
+            this.Logger = Logger;
+            this.config = authConfig.oauth2;
+        }
+
+        //#region Public API
+
+        public applyCredentials(headers: { [name: string]: any }): boolean {
+
+            if (!this.Preferences.token) {
+                return false;
+            }
+
+            /*tslint:disable no-string-literal*/
+            headers["Authorization"] = "Bearer " + this.Preferences.token;
+            /*tslint:enable no-string-literal*/
+
+            return true;
+        }
+
+        public refresh(): ng.IPromise<void> {
+
+            if (!this.Preferences.refreshToken) {
+                return this.$q.reject(new Error("The access token cannot be refreshed because there isn't a refresh token."));
+            }
+
+            return this.requestToken({
+                grant_type: "refresh_token",
+                refresh_token: this.Preferences.refreshToken,
+                client_id: this.config.clientId
+            });
+        }
+
+        public login(): ng.IPromise<void> {
+            var q = this.$q.defer<void>(),
+                codeVerifier: string,
+                state: string,
+                url: string,
+                browser: InAppBrowser,
+                isComplete = false;
+
+            // The verifier is kept on the device; only its hash is sent with the authorization
+            // request, so an intercepted authorization code can't be exchanged by anyone else.
+            codeVerifier = this.CryptoUtilities.toBase64Url(this.CryptoUtilities.getRandomBytes(32));
+            state = this.CryptoUtilities.toBase64Url(this.CryptoUtilities.getRandomBytes(16));
+
+            url = new URI(this.config.authorizationUrl).search({
+                response_type: "code",
+                client_id: this.config.clientId,
+                redirect_uri: this.config.redirectUri,
+                scope: this.config.scope,
+                state: state,
+                code_challenge: this.CryptoUtilities.toBase64Url(this.CryptoUtilities.sha256(codeVerifier)),
+                code_challenge_method: "S256"
+            }).toString();
+
+            browser = window.open(url, "_blank", "location=no,clearsessioncache=yes");
+
+            browser.addEventListener("loadstart", (event: InAppBrowserEvent) => {
+                var params: any;
+
+                if (event.url.indexOf(this.config.redirectUri) !== 0) {
+                    return;
+                }
+
+                isComplete = true;
+                browser.close();
+
+                params = new URI(event.url).search(true);
+
+                if (params.error) {
+                    q.reject(new Error("Sign in failed: " + (params.error_description || params.error)));
+                    return;
+                }
+
+                if (params.state !== state) {
+                    q.reject(new Error("Sign in failed: the state returned by the authorization server did not match."));
+                    return;
+                }
+
+                this.requestToken({
+                    grant_type: "authorization_code",
+                    code: params.code,
+                    redirect_uri: this.config.redirectUri,
+                    client_id: this.config.clientId,
+                    code_verifier: codeVerifier
+                }).then(() => {
+                    q.resolve();
+                }, (error: any) => {
+                    q.reject(error);
+                });
+            });
+
+            browser.addEventListener("exit", () => {
+                if (!isComplete) {
+                    q.reject(new Error("Sign in was cancelled."));
+                }
+            });
+
+            return q.promise;
+        }
+
+        //#endregion
+
+        //#region Private Helper Methods
+
+        /**
+         * Used to request tokens from the token endpoint and save them to the user's preferences.
+         * 
+         * @param params The form parameters to send (eg the grant type and code).
+         * @returns A promise that will be resolved once the tokens have been saved.
+         */
+        private requestToken(params: any): ng.IPromise<void> {
+            var q = this.$q.defer<void>(),
+                httpConfig: Interfaces.RequestConfig;
+
+            httpConfig = {
+                method: "POST",
+                url: this.config.tokenUrl,
+                data: URI.buildQuery(params),
+                headers: {
+                    "Content-Type": "application/x-www-form-urlencoded",
+                    "Accept": "application/json"
+                },
+                blocking: false,
+                showSpinner: false,
+                skipTokenRefresh: true
+            };
+
+            this.$http(httpConfig).then((response: ng.IHttpPromiseCallbackArg<DataTypes.OAuth2TokenResponse>) => {
+
+                if (!response.data || !response.data.access_token) {
+                    q.reject(new Error("The token response did not contain an access token."));
+                    return;
+                }
+
+                this.Preferences.token = response.data.access_token;
+                this.Preferences.tokenExpiresAt = response.data.expires_in ? moment().add(response.data.expires_in, "seconds") : null;
+
+                // The authorization server may or may not issue a new refresh token.
+                if (response.data.refresh_token) {
+                    this.Preferences.refreshToken = response.data.refresh_token;
+                }
+
+                this.Logger.info("An access token was obtained using the " + params.grant_type + " grant.");
+
+                q.resolve();
+            }, (error: ng.IHttpPromiseCallbackArg<any>) => {
+                // The response isn't logged as the error here, since its config contains the credentials.
+                this.Logger.warn("Unable to obtain an access token (" + (error ? error.status + "" : "unknown") + ").");
+                q.reject(error);
+            });
+
+            return q.promise;
+        }
+
+        //#endregion
+    }
+}
\ No newline at end of file
@@ -0,0 +1,113 @@
+﻿module JustinCredible.SampleApp.Services {
+
+    /**
+     * The base class for the authentication strategies which send the user's token in the
+     * Authorization header (see BasicAuthStrategy and BearerAuthStrategy).
+     * 
+     * The token is refreshed by POSTing the current user ID and token to the endpoint that
+     * is specified via the tokenRefreshConfig constant.
+     * 
+     * Descendants must override getAuthorizationHeader().
+     */
+    export class TokenAuthStrategy implements Interfaces.AuthStrategy {
+
+        public static $inject = ["$q", "$http", "Preferences", "Logger", "tokenRefreshConfig"];
+
+        private $q: ng.IQService;
+        private $http: ng.IHttpService;
+        private Preferences: Preferences;
+        private Logger: Logger;
+        private tokenRefreshConfig: Interfaces.TokenRefreshConfig;
+
+        constructor($q: ng.IQService, $http: ng.IHttpService, Preferences: Preferences, Logger: Logger, tokenRefreshConfig: Interfaces.TokenRefreshConfig) {
+            this.$q = $q;
+            this.$http = $http;
+            this.Preferences = Preferences;
+            this.Logger = Logger;
+            this.tokenRefreshConfig = tokenRefreshConfig;
+        }
+
+        //#region Public API
+
+        /**
+         * Used to create the value for the Authorization header.
+         * 
+         * Must be overridden by implementing strategies.
+         * 
+         * @param userId The user's ID, which may be null.
+         * @param token The user's token.
+         * @returns The header value, or null if the given credentials aren't sufficient.
+         */
+        public getAuthorizationHeader(userId: string, token: string): string {
+            throw new Error("TokenAuthStrategy.getAuthorizationHeader() must be overridden.");
+        }
+
+        public applyCredentials(headers: { [name: string]: any }): boolean {
+            var headerValue: string;
+
+            if (!this.Preferences.token) {
+                return false;
+            }
+
+            headerValue = this.getAuthorizationHeader(this.Preferences.userId, this.Preferences.token);
+
+            if (!headerValue) {
+                return false;
+            }
+
+            /*tslint:disable no-string-literal*/
+            headers["Authorization"] = headerValue;
+            /*tslint:enable no-string-literal*/
+
+            return true;
+        }
+
+        public refresh(): ng.IPromise<void> {
+            var q = this.$q.defer<void>(),
+                httpConfig: Interfaces.RequestConfig;
+
+            if (!this.Preferences.token) {
+                q.reject(new Error("The token cannot be refreshed because there isn't one."));
+                return q.promise;
+            }
+
+            httpConfig = {
+                method: "POST",
+                url: this.tokenRefreshConfig.url,
+                data: <DataTypes.TokenRefreshRequest>{
+                    userId: this.Preferences.userId,
+                    token: this.Preferences.token
+                },
+                blocking: false,
+                showSpinner: false,
+                skipTokenRefresh: true
+            };
+
+            this.$http(httpConfig).then((response: ng.IHttpPromiseCallbackArg<DataTypes.TokenResponse>) => {
+
+                if (!response.data || !response.data.token) {
+                    q.reject(new Error("The token refresh response did not contain a token."));
+                    return;
+                }
+
+                this.Preferences.token = response.data.token;
+                this.Preferences.tokenExpiresAt = response.data.expires ? moment(response.data.expires) : null;
+                this.Logger.info("The token was refreshed.");
+
+                q.resolve();
+            }, (error: ng.IHttpPromiseCallbackArg<any>) => {
+                // The response isn't logged as the error here, since its config contains the token.
+                this.Logger.warn("Unable to refresh the token (" + (error ? error.status + "" : "unknown") + ").");
+                q.reject(error);
+            });
+
+            return q.promise;
+        }
+
+        public login(): ng.IPromise<void> {
+            return this.$q.reject(new Error("Interactive login is not supported by this authentication strategy."));
+        }
+
+        //#endregion
+    }
+}
\ No newline at end of file
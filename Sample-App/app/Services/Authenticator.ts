@@ -0,0 +1,102 @@
+﻿module JustinCredible.SampleApp.Services {
+
+    /**
+     * Provides a way to authenticate requests to our API endpoints using the authentication
+     * strategy selected via the authConfig constant (see Interfaces.AuthStrategy).
+     * 
+     * The user's credentials (ID, token, and token expiration) are stored via Preferences.
+     */
+    export class Authenticator {
+
+        public static $inject = ["$injector", "Preferences", "authConfig"];
+
+        private $injector: ng.auto.IInjectorService;
+        private Preferences: Preferences;
+        private authConfig: Interfaces.AuthConfig;
+
+        private strategy: Interfaces.AuthStrategy;
+
+        constructor($injector: ng.auto.IInjectorService, Preferences: Preferences, authConfig: Interfaces.AuthConfig) {
+            this.$injector = $injector;
+            this.Preferences = Preferences;
+            this.authConfig = authConfig;
+        }
+
+        //#region Public API
+
+        /**
+         * Used to add the user's credentials to the given request headers.
+         * 
+         * @param headers The headers of the request, which will be modified.
+         * @returns True if credentials were added, false if there are no credentials.
+         */
+        public applyCredentials(headers: { [name: string]: any }): boolean {
+            return this.getStrategy().applyCredentials(headers);
+        }
+
+        /**
+         * Used to obtain new credentials after the current ones were rejected or have expired.
+         * 
+         * @returns A promise that will be resolved once the new credentials have been saved.
+         */
+        public refresh(): ng.IPromise<void> {
+            return this.getStrategy().refresh();
+        }
+
+        /**
+         * Used to interactively sign the user in, if supported by the strategy.
+         * 
+         * @returns A promise that will be resolved once the credentials have been saved.
+         */
+        public login(): ng.IPromise<void> {
+            return this.getStrategy().login();
+        }
+
+        /**
+         * Used to remove all of the user's stored credentials.
+         */
+        public clearCredentials(): void {
+            this.Preferences.userId = null;
+            this.Preferences.token = null;
+            this.Preferences.tokenExpiresAt = null;
+            this.Preferences.refreshToken = null;
+        }
+
+        /**
+         * Used to determine if the user's token is known to have expired.
+         * 
+         * @returns True if the token has an expiration time which has passed.
+         */
+        public isTokenExpired(): boolean {
+            var tokenExpiresAt = this.Preferences.tokenExpiresAt;
+
+            return !!this.Preferences.token && tokenExpiresAt != null && !moment().isBefore(tokenExpiresAt);
+        }
+
+        /**
+         * Used to get the name of the authentication strategy that is in use.
+         */
+        public getStrategyName(): string {
+            return this.authConfig.strategy;
+        }
+
+        //#endregion
+
+        //#region Private Helper Methods
+
+        /**
+         * Used to get the configured strategy. This is resolved lazily, since strategies may
+         * depend on the $http service which depends on the HttpInterceptor which uses this service.
+         */
+        private getStrategy(): Interfaces.AuthStrategy {
+
+            if (!this.strategy) {
+                this.strategy = this.$injector.get(this.authConfig.strategy);
+            }
+
+            return this.strategy;
+        }
+
+        //#endregion
+    }
+}
\ No newline at end of file
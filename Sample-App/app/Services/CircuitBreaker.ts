@@ -0,0 +1,262 @@
+﻿module JustinCredible.SampleApp.Services {
+
+    /**
+     * Keeps track of failing API requests so that the application stops sending requests to a
+     * service that is down.
+     * 
+     * Requests are grouped into circuits by host (or by host and endpoint group, depending on
+     * the circuitBreakerConfig constant). After a number of consecutive failures the circuit is
+     * opened and the HttpInterceptor rejects its requests immediately with a
+     * Models.CircuitOpenError. Once the cooldown period has elapsed the circuit is half-opened,
+     * which allows a single probe request through; if it succeeds the circuit is closed again,
+     * otherwise it is re-opened for another cooldown period.
+     * 
+     * Whenever the state of a circuit changes, the circuitBreaker.changed event is broadcast on
+     * the root scope.
+     */
+    export class CircuitBreaker {
+
+        public static $inject = ["$rootScope", "Utilities", "Logger", "circuitBreakerConfig"];
+
+        private $rootScope: ng.IRootScopeService;
+        private Utilities: Utilities;
+        private Logger: Logger;
+        private config: Interfaces.CircuitBreakerConfig;
+
+        private circuits: { [key: string]: Models.Circuit };
+
+        constructor($rootScope: ng.IRootScopeService, Utilities: Utilities, Logger: Logger, circuitBreakerConfig: Interfaces.CircuitBreakerConfig) {
+            this.$rootScope = $rootScope;
+            this.Utilities = Utilities;
+            this.Logger = Logger;
+            this.config = circuitBreakerConfig;
+
+            this.circuits = {};
+        }
+
+        //#region Public API
+
+        /**
+         * Used to determine if requests should be tracked at all.
+         * 
+         * @returns True if the circuit breaker is enabled via the configuration.
+         */
+        public isEnabled(): boolean {
+            return !!this.config && this.config.enabled;
+        }
+
+        /**
+         * Used to get the key of the circuit that the given API request belongs to.
+         * 
+         * @param url The URL of the API request (eg ~/categories/1).
+         * @param baseUrl The base URL that the request will be sent to.
+         * @returns The key of the circuit (eg sample-app.justin-credible.net or sample-app.justin-credible.net ~/categories).
+         */
+        public getKey(url: string, baseUrl: string): string {
+            var host = new URI(baseUrl).host(),
+                segment: string;
+
+            if (!this.config.groupByEndpoint) {
+                return host;
+            }
+
+            segment = _.find(url.replace(/^~/, "").split(/[?#]/)[0].split("/"), (part: string) => {
+                return !!part;
+            });
+
+            return segment ? host + " ~/" + segment : host;
+        }
+
+        /**
+         * Used to determine if a request for the given circuit may be sent. If the cooldown
+         * period of an open circuit has elapsed, it is half-opened and the request is allowed
+         * as the probe; see isProbing().
+         * 
+         * @param key The key of the circuit; see getKey().
+         * @returns True if the request may be sent, false if it should fail immediately.
+         */
+        public allowRequest(key: string): boolean {
+            var circuit = this.circuits[key];
+
+            if (!circuit || circuit.state === Models.CircuitState.Closed) {
+                return true;
+            }
+
+            if (circuit.state === Models.CircuitState.Open && moment().isBefore(circuit.retryAt)) {
+                return false;
+            }
+
+            if (circuit.state === Models.CircuitState.HalfOpen && circuit.isProbing) {
+                return false;
+            }
+
+            circuit.isProbing = true;
+            this.setState(circuit, Models.CircuitState.HalfOpen);
+
+            return true;
+        }
+
+        /**
+         * Used to determine if the probe request of the given circuit is in progress.
+         * 
+         * @param key The key of the circuit; see getKey().
+         * @returns True if the circuit is half-open and its probe request has been allowed.
+         */
+        public isProbing(key: string): boolean {
+            var circuit = this.circuits[key];
+
+            return !!circuit && circuit.state === Models.CircuitState.HalfOpen && circuit.isProbing;
+        }
+
+        /**
+         * Used to record that a request for the given circuit reached the server. This closes
+         * the circuit and resets its failure count.
+         * 
+         * @param key The key of the circuit; see getKey().
+         */
+        public recordSuccess(key: string): void {
+            var circuit = this.circuits[key];
+
+            if (!circuit) {
+                return;
+            }
+
+            circuit.failureCount = 0;
+            circuit.isProbing = false;
+            circuit.openedAt = null;
+            circuit.retryAt = null;
+
+            this.setState(circuit, Models.CircuitState.Closed);
+        }
+
+        /**
+         * Used to record that a request for the given circuit failed. The circuit is opened if
+         * the probe request failed or if the number of consecutive failures has reached the
+         * threshold.
+         * 
+         * @param key The key of the circuit; see getKey().
+         */
+        public recordFailure(key: string): void {
+            var circuit = this.getCircuit(key);
+
+            circuit.failureCount += 1;
+            circuit.isProbing = false;
+
+            if (circuit.state === Models.CircuitState.HalfOpen || circuit.failureCount >= this.config.failureThreshold) {
+                circuit.openedAt = new Date();
+                circuit.retryAt = moment(circuit.openedAt).add(this.config.cooldownInSeconds, "seconds").toDate();
+
+                this.setState(circuit, Models.CircuitState.Open);
+            }
+        }
+
+        /**
+         * Used to indicate that the probe request of the given circuit finished without an
+         * outcome (eg it was cancelled), so another request may be used as the probe.
+         * 
+         * @param key The key of the circuit; see getKey().
+         */
+        public releaseProbe(key: string): void {
+            var circuit = this.circuits[key];
+
+            if (circuit) {
+                circuit.isProbing = false;
+            }
+        }
+
+        /**
+         * Used to determine if the given response counts as a failure of its circuit.
+         * 
+         * @param status The status code of the response.
+         * @returns True if the status is one of the configured failure statuses.
+         */
+        public isFailure(status: number): boolean {
+            return _.contains(this.config.failureStatuses, status);
+        }
+
+        /**
+         * Used to create the error for a request that was not allowed by the given circuit.
+         * 
+         * @param key The key of the circuit; see getKey().
+         * @returns The error.
+         */
+        public createError(key: string): Models.CircuitOpenError {
+            var circuit = this.getCircuit(key);
+
+            return new Models.CircuitOpenError(key, circuit.retryAt);
+        }
+
+        /**
+         * Used to get the circuits that are not closed.
+         * 
+         * @returns Copies of the open and half-open circuits.
+         */
+        public getOpenCircuits(): Models.Circuit[] {
+            return _.cloneDeep(_.filter(_.values(this.circuits), (circuit: Models.Circuit) => {
+                return circuit.state !== Models.CircuitState.Closed;
+            }));
+        }
+
+        /**
+         * Used to determine if any of the services are considered to be down.
+         * 
+         * @returns True if any circuits are open or half-open.
+         */
+        public isDegraded(): boolean {
+            return this.getOpenCircuits().length > 0;
+        }
+
+        //#endregion
+
+        //#region Private Helper Methods
+
+        /**
+         * Used to get the circuit with the given key, creating a closed circuit if there isn't one.
+         * 
+         * @param key The key of the circuit; see getKey().
+         * @returns The circuit.
+         */
+        private getCircuit(key: string): Models.Circuit {
+            var circuit = this.circuits[key];
+
+            if (!circuit) {
+                circuit = new Models.Circuit();
+                circuit.key = key;
+                circuit.state = Models.CircuitState.Closed;
+                circuit.failureCount = 0;
+                circuit.openedAt = null;
+                circuit.retryAt = null;
+                circuit.isProbing = false;
+
+                this.circuits[key] = circuit;
+            }
+
+            return circuit;
+        }
+
+        /**
+         * Used to change the state of the given circuit and notify the rest of the application.
+         * 
+         * @param circuit The circuit to update.
+         * @param state The new state of the circuit.
+         */
+        private setState(circuit: Models.Circuit, state: Models.CircuitState): void {
+
+            if (circuit.state === state) {
+                return;
+            }
+
+            circuit.state = state;
+
+            if (state === Models.CircuitState.Open) {
+                this.Logger.warn(this.Utilities.format("The circuit for {0} was opened after {1} consecutive failure(s).", circuit.key, circuit.failureCount), null, { circuitKey: circuit.key });
+            }
+
+            this.Logger.addBreadcrumb("http", "Circuit " + circuit.key + " is " + Models.CircuitState[state]);
+
+            this.$rootScope.$broadcast("circuitBreaker.changed", _.clone(circuit), this.isDegraded());
+        }
+
+        //#endregion
+    }
+}
\ No newline at end of file
@@ -0,0 +1,290 @@
+﻿module JustinCredible.SampleApp.Services {
+
+    /**
+     * Provides a common set of helper methods for hashing and generating random values.
+     * 
+     * Strings are hashed using their UTF-8 encoding and the results are returned as arrays
+     * of bytes, which can then be encoded as hex or Base64 as needed.
+     */
+    export class CryptoUtilities {
+
+        public static $inject = [];
+
+        /**
+         * The round constants used by SHA-256; the first 32 bits of the fractional parts of
+         * the cube roots of the first 64 primes.
+         */
+        private static SHA256_ROUND_CONSTANTS = [
+            0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+            0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+            0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+            0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+            0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+            0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+            0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+            0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2
+        ];
+
+        /**
+         * The initial hash values used by SHA-256; the first 32 bits of the fractional parts
+         * of the square roots of the first 8 primes.
+         */
+        private static SHA256_INITIAL_HASH = [
+            0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19
+        ];
+
+        /**
+         * The size in bytes of the blocks that SHA-256 operates on, which HMAC pads the key to.
+         */
+        private static SHA256_BLOCK_SIZE = 64;
+
+        //#region Public API
+
+        /**
+         * Used to compute the SHA-256 hash of the given string.
+         * 
+         * @param message The string to hash.
+         * @returns The 32 bytes of the hash.
+         */
+        public sha256(message: string): number[] {
+            return this.sha256Bytes(this.toUtf8Bytes(message));
+        }
+
+        /**
+         * Used to compute the HMAC-SHA256 of the given string (RFC 2104).
+         * 
+         * @param key The bytes of the secret key.
+         * @param message The string to authenticate.
+         * @returns The 32 bytes of the message authentication code.
+         */
+        public hmacSha256(key: number[], message: string): number[] {
+            var innerPad: number[] = [],
+                outerPad: number[] = [],
+                i: number;
+
+            // Keys longer than the block size are hashed first; shorter keys are padded with zeros.
+            if (key.length > CryptoUtilities.SHA256_BLOCK_SIZE) {
+                key = this.sha256Bytes(key);
+            }
+
+            for (i = 0; i < CryptoUtilities.SHA256_BLOCK_SIZE; i += 1) {
+                /*tslint:disable no-bitwise*/
+                innerPad.push((key[i] || 0) ^ 0x36);
+                outerPad.push((key[i] || 0) ^ 0x5c);
+                /*tslint:enable no-bitwise*/
+            }
+
+            return this.sha256Bytes(outerPad.concat(this.sha256Bytes(innerPad.concat(this.toUtf8Bytes(message)))));
+        }
+
+        /**
+         * Used to generate cryptographically random bytes. If the Web Cryptography API isn't
+         * available on the device, Math.random() is used instead.
+         * 
+         * @param count The number of bytes to generate.
+         * @returns The random bytes.
+         */
+        public getRandomBytes(count: number): number[] {
+            var bytes: number[] = [],
+                randomValues: Uint8Array,
+                i: number;
+
+            if (window.crypto && window.crypto.getRandomValues) {
+                randomValues = new Uint8Array(count);
+                window.crypto.getRandomValues(randomValues);
+
+                for (i = 0; i < count; i += 1) {
+                    bytes.push(randomValues[i]);
+                }
+            }
+            else {
+                for (i = 0; i < count; i += 1) {
+                    bytes.push(Math.floor(Math.random() * 256));
+                }
+            }
+
+            return bytes;
+        }
+
+        /**
+         * Used to encode the given string as UTF-8.
+         * 
+         * @param text The string to encode.
+         * @returns The bytes of the UTF-8 encoding.
+         */
+        public toUtf8Bytes(text: string): number[] {
+            var encoded = encodeURIComponent(text || ""),
+                bytes: number[] = [],
+                i = 0;
+
+            // encodeURIComponent percent-encodes each byte of the UTF-8 encoding, except
+            // for unreserved characters which are single byte anyways.
+            while (i < encoded.length) {
+                if (encoded.charAt(i) === "%") {
+                    bytes.push(parseInt(encoded.substr(i + 1, 2), 16));
+                    i += 3;
+                }
+                else {
+                    bytes.push(encoded.charCodeAt(i));
+                    i += 1;
+                }
+            }
+
+            return bytes;
+        }
+
+        /**
+         * Used to encode the given bytes as a lowercase hex string.
+         * 
+         * @param bytes The bytes to encode.
+         * @returns The hex string.
+         */
+        public toHex(bytes: number[]): string {
+            return _.map(bytes, (byte: number) => {
+                return (byte < 16 ? "0" : "") + byte.toString(16);
+            }).join("");
+        }
+
+        /**
+         * Used to encode the given bytes as Base64.
+         * 
+         * @param bytes The bytes to encode.
+         * @returns The Base64 string.
+         */
+        public toBase64(bytes: number[]): string {
+            return btoa(_.map(bytes, (byte: number) => {
+                return String.fromCharCode(byte);
+            }).join(""));
+        }
+
+        /**
+         * Used to encode the given bytes as Base64 using the URL and filename safe alphabet
+         * without padding (RFC 4648 section 5).
+         * 
+         * @param bytes The bytes to encode.
+         * @returns The Base64 URL string.
+         */
+        public toBase64Url(bytes: number[]): string {
+            return this.toBase64(bytes).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+        }
+
+        /**
+         * Used to decode the given Base64 string.
+         * 
+         * @param text The Base64 string to decode.
+         * @returns The decoded bytes.
+         */
+        public fromBase64(text: string): number[] {
+            return _.map(atob(text || "").split(""), (character: string) => {
+                return character.charCodeAt(0);
+            });
+        }
+
+        //#endregion
+
+        //#region Private Helper Methods
+
+        /*tslint:disable no-bitwise*/
+
+        /**
+         * Used to compute the SHA-256 hash of the given bytes (FIPS 180-4).
+         * 
+         * Bitwise operators are used here since the algorithm is defined in terms of 32 bit
+         * words; the results are coerced back to 32 bit integers using "| 0" or ">>> 0".
+         * 
+         * @param message The bytes to hash.
+         * @returns The 32 bytes of the hash.
+         */
+        private sha256Bytes(message: number[]): number[] {
+            var constants = CryptoUtilities.SHA256_ROUND_CONSTANTS,
+                hash = CryptoUtilities.SHA256_INITIAL_HASH.slice(0),
+                bytes = message.concat([0x80]),
+                bitLength = message.length * 8,
+                words: number[] = [],
+                schedule: number[] = [],
+                result: number[] = [],
+                a: number, b: number, c: number, d: number, e: number, f: number, g: number, h: number,
+                sigma0: number,
+                sigma1: number,
+                temp1: number,
+                temp2: number,
+                i: number,
+                t: number;
+
+            // Pad the message to a multiple of 64 bytes, leaving room for the 64 bit length.
+            while (bytes.length % 64 !== 56) {
+                bytes.push(0);
+            }
+
+            [Math.floor(bitLength / 0x100000000), bitLength >>> 0].forEach((value: number) => {
+                bytes.push((value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff);
+            });
+
+            // Convert the bytes into big-endian 32 bit words.
+            for (i = 0; i < bytes.length; i += 4) {
+                words.push((bytes[i] << 24) | (bytes[i + 1] << 16) | (bytes[i + 2] << 8) | bytes[i + 3]);
+            }
+
+            // Process each 512 bit chunk.
+            for (i = 0; i < words.length; i += 16) {
+                a = hash[0];
+                b = hash[1];
+                c = hash[2];
+                d = hash[3];
+                e = hash[4];
+                f = hash[5];
+                g = hash[6];
+                h = hash[7];
+
+                for (t = 0; t < 64; t += 1) {
+
+                    if (t < 16) {
+                        schedule[t] = words[i + t];
+                    }
+                    else {
+                        sigma0 = this.rotateRight(schedule[t - 15], 7) ^ this.rotateRight(schedule[t - 15], 18) ^ (schedule[t - 15] >>> 3);
+                        sigma1 = this.rotateRight(schedule[t - 2], 17) ^ this.rotateRight(schedule[t - 2], 19) ^ (schedule[t - 2] >>> 10);
+                        schedule[t] = (schedule[t - 16] + sigma0 + schedule[t - 7] + sigma1) | 0;
+                    }
+
+                    sigma1 = this.rotateRight(e, 6) ^ this.rotateRight(e, 11) ^ this.rotateRight(e, 25);
+                    temp1 = (h + sigma1 + ((e & f) ^ (~e & g)) + constants[t] + schedule[t]) | 0;
+                    sigma0 = this.rotateRight(a, 2) ^ this.rotateRight(a, 13) ^ this.rotateRight(a, 22);
+                    temp2 = (sigma0 + ((a & b) ^ (a & c) ^ (b & c))) | 0;
+
+                    h = g;
+                    g = f;
+                    f = e;
+                    e = (d + temp1) | 0;
+                    d = c;
+                    c = b;
+                    b = a;
+                    a = (temp1 + temp2) | 0;
+                }
+
+                hash[0] = (hash[0] + a) | 0;
+                hash[1] = (hash[1] + b) | 0;
+                hash[2] = (hash[2] + c) | 0;
+                hash[3] = (hash[3] + d) | 0;
+                hash[4] = (hash[4] + e) | 0;
+                hash[5] = (hash[5] + f) | 0;
+                hash[6] = (hash[6] + g) | 0;
+                hash[7] = (hash[7] + h) | 0;
+            }
+
+            hash.forEach((value: number) => {
+                result.push((value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff);
+            });
+
+            return result;
+        }
+
+        private rotateRight(value: number, count: number): number {
+            return (value >>> count) | (value << (32 - count));
+        }
+
+        /*tslint:enable no-bitwise*/
+
+        //#endregion
+    }
+}
\ No newline at end of file
@@ -0,0 +1,232 @@
+﻿module JustinCredible.SampleApp.Services {
+
+    /**
+     * Provides a way to package the log entries along with information about the application,
+     * device, preferences, and storage into a single diagnostic bundle that can be sent to the
+     * support team.
+     * 
+     * The bundle is a JSON document described by Interfaces.DiagnosticBundle. Whenever the
+     * structure of the bundle changes, BUNDLE_FORMAT_VERSION must be incremented and the format
+     * documentation in the README updated.
+     */
+    export class Diagnostics {
+
+        public static $inject = ["$q", "Utilities", "FileUtilities", "Logger", "Redactor", "Preferences", "versionInfo"];
+
+        /**
+         * The version of the bundle's format; see Interfaces.DiagnosticBundle.
+         */
+        public static BUNDLE_FORMAT_VERSION = 1;
+
+        /**
+         * The directory that diagnostic bundles are written to.
+         */
+        private static BUNDLE_DIRECTORY = "/diagnostics";
+
+        /**
+         * The longest (URI encoded) bundle that will be included in the body of an e-mail. E-mail
+         * clients truncate or refuse to open mailto URIs that are much longer than this.
+         */
+        private static MAX_EMAIL_BUNDLE_LENGTH = 1500;
+
+        private $q: ng.IQService;
+        private Utilities: Utilities;
+        private FileUtilities: FileUtilities;
+        private Logger: Logger;
+        private Redactor: Redactor;
+        private Preferences: Preferences;
+        private versionInfo: Interfaces.VersionInfo;
+
+        constructor($q: ng.IQService, Utilities: Utilities, FileUtilities: FileUtilities, Logger: Logger, Redactor: Redactor, Preferences: Preferences, versionInfo: Interfaces.VersionInfo) {
+            this.$q = $q;
+            this.Utilities = Utilities;
+            this.FileUtilities = FileUtilities;
+            this.Logger = Logger;
+            this.Redactor = Redactor;
+            this.Preferences = Preferences;
+            this.versionInfo = versionInfo;
+        }
+
+        //#region Public API
+
+        /**
+         * Used to create a diagnostic bundle.
+         * 
+         * @param filter An optional filter; if provided only the matching log entries are included.
+         * @returns A promise that will be resolved with the bundle.
+         */
+        public createBundle(filter?: Models.LogFilter): ng.IPromise<Interfaces.DiagnosticBundle> {
+            var q = this.$q.defer<Interfaces.DiagnosticBundle>();
+
+            this.Logger.getLogs().then((logEntries: Models.LogEntry[]) => {
+                var bundle: Interfaces.DiagnosticBundle;
+
+                if (filter) {
+                    logEntries = this.Logger.filterLogs(logEntries, filter);
+                }
+
+                bundle = {
+                    formatVersion: Diagnostics.BUNDLE_FORMAT_VERSION,
+                    createdAt: moment().format(),
+                    versionInfo: this.versionInfo,
+                    device: this.getDeviceInfo(),
+                    preferences: this.getPreferencesSnapshot(),
+                    storage: {
+                        defaultRootPathId: this.FileUtilities.getDefaultRootPathId(),
+                        defaultRootPath: this.FileUtilities.getDefaultRootPath(),
+                        logDirectory: this.Logger.getLogDirectory(),
+                        logToLocalStorage: this.Logger.getLogToLocalStorage()
+                    },
+                    filter: filter || null,
+                    logEntries: _.sortBy(logEntries, "timestamp")
+                };
+
+                q.resolve(bundle);
+            }, (error: any) => {
+                q.reject(error);
+            });
+
+            return q.promise;
+        }
+
+        /**
+         * Used to write the given bundle to a JSON file in the diagnostics directory.
+         * 
+         * @param bundle The bundle to write.
+         * @returns A promise that will be resolved with the path to the file that was written.
+         */
+        public saveBundle(bundle: Interfaces.DiagnosticBundle): ng.IPromise<string> {
+            var q = this.$q.defer<string>(),
+                path: string;
+
+            path = this.Utilities.format("{0}/diagnostics-{1}.json", Diagnostics.BUNDLE_DIRECTORY, moment(bundle.createdAt).format("YYYYMMDD-HHmmss"));
+
+            this.FileUtilities.createDirectory(Diagnostics.BUNDLE_DIRECTORY).then(() => {
+                return this.FileUtilities.writeTextFile(path, JSON.stringify(bundle, null, 2));
+            }).then(() => {
+                q.resolve(path);
+            }, (error: any) => {
+                q.reject(error);
+            });
+
+            return q.promise;
+        }
+
+        /**
+         * Used to open the device's e-mail client with a message about the given bundle addressed
+         * to the support e-mail address. The message summarizes the bundle and includes where it
+         * was saved; the bundle itself is only included if it is small enough to fit in a mailto
+         * URI, so larger bundles should be sent via copyBundle() instead.
+         * 
+         * @param bundle The bundle to send.
+         * @param path The path that the bundle was saved to via saveBundle(), if it was saved.
+         * @returns True if the whole bundle was included in the message.
+         */
+        public emailBundle(bundle: Interfaces.DiagnosticBundle, path?: string): boolean {
+            var subject: string,
+                json = JSON.stringify(bundle),
+                isIncluded = encodeURIComponent(json).length <= Diagnostics.MAX_EMAIL_BUNDLE_LENGTH,
+                lines: string[],
+                uri: string;
+
+            subject = this.Utilities.format("{0} Diagnostics ({1})", this.versionInfo.applicationName, this.versionInfo.versionString);
+
+            lines = [
+                this.Utilities.format("Created: {0}", bundle.createdAt),
+                this.Utilities.format("Platform: {0} {1} ({2})", bundle.device.platform || "Unknown", bundle.device.version || "", bundle.device.model || "Unknown"),
+                this.Utilities.format("Log Entries: {0}", bundle.logEntries.length)
+            ];
+
+            if (path) {
+                lines.push(this.Utilities.format("Saved To: {0}", path));
+            }
+
+            lines.push("");
+            lines.push(isIncluded ? json : "The diagnostic bundle is too large to include in this message; use the Copy option to send all of it.");
+
+            uri = this.Utilities.format("mailto:{0}?subject={1}&body={2}",
+                this.versionInfo.email,
+                encodeURIComponent(subject),
+                encodeURIComponent(lines.join("\n")));
+
+            window.location.href = uri;
+
+            return isIncluded;
+        }
+
+        /**
+         * Used to copy the given bundle to the clipboard as JSON.
+         * 
+         * @param bundle The bundle to copy.
+         * @returns A promise that will be resolved once the bundle has been copied.
+         */
+        public copyBundle(bundle: Interfaces.DiagnosticBundle): ng.IPromise<void> {
+            var q = this.$q.defer<void>();
+
+            this.Utilities.clipboard.copy(JSON.stringify(bundle), () => {
+                q.resolve();
+            }, (error: any) => {
+                q.reject(error);
+            });
+
+            return q.promise;
+        }
+
+        //#endregion
+
+        //#region Private Helper Methods
+
+        /**
+         * Used to get the details of the device from the Cordova device plugin.
+         * 
+         * @returns The device details; each is null if the plugin isn't available (eg in a browser).
+         */
+        private getDeviceInfo(): Interfaces.DiagnosticDeviceInfo {
+
+            if (typeof (device) === "undefined") {
+                return {
+                    platform: null,
+                    version: null,
+                    model: null,
+                    cordova: null
+                };
+            }
+
+            return {
+                platform: device.platform,
+                version: device.version,
+                model: device.model,
+                cordova: device.cordova
+            };
+        }
+
+        /**
+         * Used to get the current value of each of the user's preferences. Sensitive values
+         * (eg the token and PIN) are removed by the Redactor.
+         * 
+         * @returns A dictionary of preference names to values.
+         */
+        private getPreferencesSnapshot(): { [name: string]: any } {
+            var snapshot: { [name: string]: any } = {},
+                prototype: any;
+
+            // Each preference is exposed as a property getter on the service's prototype.
+            prototype = Object.getPrototypeOf(this.Preferences);
+
+            Object.getOwnPropertyNames(prototype).forEach((name: string) => {
+                var descriptor = Object.getOwnPropertyDescriptor(prototype, name);
+
+                if (descriptor && descriptor.get) {
+                    snapshot[name] = this.Preferences[name];
+                }
+            });
+
+            // Round trip through JSON so values (eg Moment instances) are in their serialized form.
+            snapshot = JSON.parse(JSON.stringify(snapshot));
+
+            return this.Redactor.redactObject(snapshot);
+        }
+
+        //#endregion
+    }
+}
\ No newline at end of file
@@ -0,0 +1,191 @@
+﻿module JustinCredible.SampleApp.Services {
+
+    /**
+     * Provides a way to upload files from local storage (see FileUtilities) to the server.
+     * 
+     * Uploads are made via the $http service with a Models.FileUpload as their data, so they go
+     * through the HttpInterceptor like any other request (eg for API URLs, credentials, logging,
+     * timeouts, and cancellation). The $httpBackend service is decorated via decorateHttpBackend()
+     * so that these requests are sent using the FileTransfer plugin, which reports the progress
+     * of the upload (see Interfaces.RequestConfig.progress).
+     */
+    export class FileUploader {
+
+        public static $inject = ["$http", "FileUtilities"];
+
+        private $http: ng.IHttpService;
+        private FileUtilities: FileUtilities;
+
+        constructor($http: ng.IHttpService, FileUtilities: FileUtilities) {
+            this.$http = $http;
+            this.FileUtilities = FileUtilities;
+        }
+
+        //#region Public API
+
+        /**
+         * Used to decorate the $httpBackend service so that requests with a Models.FileUpload as
+         * their data are sent using the FileTransfer plugin; all other requests are sent as usual.
+         * 
+         * @param $provide The provider service which will be used to obtain and decorate the $httpBackend service.
+         */
+        public static decorateHttpBackend($provide: ng.auto.IProvideService): void {
+
+            $provide.decorator("$httpBackend", function ($delegate: any) {
+                var proxy: any;
+
+                proxy = function (method: string, url: string, data: any, callback: Function, headers: { [name: string]: any }, timeout: any) {
+
+                    if (!(data instanceof Models.FileUpload)) {
+                        return $delegate.apply(this, arguments);
+                    }
+
+                    FileUploader.send(method, url, data, callback, headers, timeout);
+                };
+
+                /*tslint:disable forin*/
+                for (var key in $delegate) {
+                    proxy[key] = $delegate[key];
+                }
+                /*tslint:enable forin*/
+
+                return proxy;
+            });
+        }
+
+        /**
+         * Used to upload the file at the given path to the URL of the given configuration.
+         * 
+         * Uploads are not timed out unless a timeout is given, since large files can take a while
+         * to send, and are not added to the RequestQueue when the device is offline.
+         * 
+         * @param path The path to the file, relative to the root path of the configuration.
+         * @param config The configuration of the request (eg its URL), which can also describe the file.
+         * @returns A promise for the response.
+         */
+        public upload(path: string, config: Interfaces.UploadConfig): ng.IPromise<any> {
+            var upload = new Models.FileUpload();
+
+            upload.fileUrl = this.FileUtilities.getFileUrl(path, config.rootPath);
+            upload.fileKey = config.fileKey || "file";
+            upload.fileName = config.fileName || _.last(path.split("/"));
+            upload.mimeType = config.mimeType || "application/octet-stream";
+            upload.fields = config.fields || {};
+            upload.onProgress = null;
+
+            config.method = config.method || "POST";
+            config.data = upload;
+
+            // The upload is sent as-is rather than serialized to JSON; see send().
+            config.transformRequest = angular.identity;
+
+            if (config.timeout == null && config.timeoutInMilliseconds == null) {
+                config.timeoutInMilliseconds = 0;
+            }
+
+            config.queueable = false;
+
+            return this.$http(config);
+        }
+
+        //#endregion
+
+        //#region Private Helper Methods
+
+        /**
+         * Used to send the given upload using the FileTransfer plugin. This has the same
+         * signature as the $httpBackend service, so the response is handed back to $http.
+         * 
+         * @param method The HTTP method of the request.
+         * @param url The full URL of the request.
+         * @param upload The file to upload.
+         * @param callback Invoked with the status, data, headers, and status text of the response.
+         * @param headers The headers of the request.
+         * @param timeout The number of milliseconds after which to abort the upload, or a promise which aborts it when resolved.
+         */
+        private static send(method: string, url: string, upload: Models.FileUpload, callback: Function, headers: { [name: string]: any }, timeout: any): void {
+            var transfer: FileTransfer,
+                options: FileUploadOptions,
+                isAborted = false,
+                timeoutId: number;
+
+            if (typeof (FileTransfer) === "undefined") {
+                callback(-1, null, null, "The FileTransfer plugin is not available.");
+                return;
+            }
+
+            options = {
+                fileKey: upload.fileKey,
+                fileName: upload.fileName,
+                mimeType: upload.mimeType,
+                params: upload.fields,
+                chunkedMode: true,
+
+                // The plugin sets the content type of the multipart request itself.
+                headers: <any>_.omit(headers, (value: any, name: string) => {
+                    return name.toLowerCase() === "content-type";
+                })
+            };
+
+            // The plugin always uses POST unless told to use PUT.
+            (<any>options).httpMethod = method.toUpperCase() === "PUT" ? "PUT" : "POST";
+
+            transfer = new FileTransfer();
+
+            transfer.onprogress = (event: ProgressEvent) => {
+                if (upload.onProgress) {
+                    upload.onProgress(event.loaded, event.lengthComputable ? event.total : 0);
+                }
+            };
+
+            if (timeout && timeout.then) {
+                timeout.then(() => {
+                    isAborted = true;
+                    transfer.abort();
+                });
+            }
+            else if (timeout > 0) {
+                timeoutId = setTimeout(() => {
+                    isAborted = true;
+                    transfer.abort();
+                }, timeout);
+            }
+
+            transfer.upload(upload.fileUrl, url, (result: FileUploadResult) => {
+                clearTimeout(timeoutId);
+                callback(result.responseCode, result.response, FileUploader.formatHeaders(result.headers), "");
+            }, (error: FileTransferError) => {
+                clearTimeout(timeoutId);
+
+                // Like an aborted XMLHttpRequest, an aborted upload has a status of -1, which
+                // $http reports as 0.
+                if (isAborted || error.code === FileTransferError.ABORT_ERR) {
+                    callback(-1, null, null, "");
+                }
+                else {
+                    callback(error.http_status || -1, error.body || null, null, "");
+                }
+            }, options);
+        }
+
+        /**
+         * Used to format the given headers of an upload's response in the same way as the
+         * headers of an XMLHttpRequest, which is what $http expects.
+         * 
+         * @param headers A dictionary of header names to values; this is only provided on iOS.
+         * @returns The headers, one per line, or null if there aren't any.
+         */
+        private static formatHeaders(headers: { [name: string]: string }): string {
+
+            if (!headers) {
+                return null;
+            }
+
+            return _.map(headers, (value: string, name: string) => {
+                return name + ": " + value;
+            }).join("\n");
+        }
+
+        //#endregion
+    }
+}
\ No newline at end of file
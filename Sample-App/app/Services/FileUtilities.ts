@@ -63,6 +63,59 @@
             return cordova.file.externalDataDirectory ? "cordova.file.externalDataDirectory" : "cordova.file.dataDirectory";
         }
 
+        /**
+         * Used to get the full URL of a file in local storage (eg for use with plugins that
+         * require a file URL such as the FileTransfer plugin).
+         * 
+         * The path is relative to the current default root directory which
+         * is determined by the getDefaultRootPath() method.
+         * 
+         * @param path The path to the file.
+         * @returns The full URL of the file.
+         */
+        public getFileUrl(path: string): string;
+
+        /**
+         * Used to get the full URL of a file in local storage (eg for use with plugins that
+         * require a file URL such as the FileTransfer plugin).
+         * 
+         * The path is relative to the given root directory.
+         * 
+         * @param path The path to the file.
+         * @param rootPath The root path to which the given path will be relative to.
+         * @returns The full URL of the file.
+         */
+        public getFileUrl(path: string, rootPath: string): string;
+
+        /**
+         * Used to get the full URL of a file in local storage (eg for use with plugins that
+         * require a file URL such as the FileTransfer plugin).
+         * 
+         * The path is relative to the given root directory.
+         * 
+         * @param path The path to the file.
+         * @param rootPath The root path to which the given path will be relative to.
+         * @returns The full URL of the file.
+         */
+        public getFileUrl(path: string, rootPath?: string): string {
+
+            if (!rootPath) {
+                rootPath = this.getDefaultRootPath();
+            }
+
+            // Unlike the file system APIs, a URL always needs exactly one slash between the
+            // root path and the path.
+            if (this.Utilities.endsWith(rootPath, "/")) {
+                rootPath = rootPath.substr(0, rootPath.length - 1);
+            }
+
+            if (!this.Utilities.startsWith(path, "/")) {
+                path = "/" + path;
+            }
+
+            return rootPath + path;
+        }
+
         /**
          * Used to read a text file from local storage.
          * 
@@ -0,0 +1,397 @@
+﻿module JustinCredible.SampleApp.Services {
+
+    /**
+     * Provides a persistent cache of the responses to GET requests for our API endpoints.
+     * 
+     * The HttpInterceptor consults this cache based on each request's cache mode (see
+     * Models.CacheMode). Responses are kept according to their Cache-Control and Expires
+     * headers; once stale, they are revalidated with the server using their ETag and
+     * Last-Modified headers, and can still be served while the device is offline.
+     * 
+     * The cache is persisted to local storage and is limited to the number of entries set via
+     * the httpCacheConfig constant; the least recently used entries are evicted first.
+     */
+    export class HttpCache {
+
+        public static $inject = ["CryptoUtilities", "httpCacheConfig"];
+
+        /**
+         * The local storage key that the cache is persisted under.
+         */
+        private static STORAGE_KEY = "HTTP_CACHE";
+
+        private CryptoUtilities: CryptoUtilities;
+        private config: Interfaces.HttpCacheConfig;
+
+        private entries: { [key: string]: Models.CacheEntry };
+
+        constructor(CryptoUtilities: CryptoUtilities, httpCacheConfig: Interfaces.HttpCacheConfig) {
+            this.CryptoUtilities = CryptoUtilities;
+            this.config = httpCacheConfig;
+
+            this.entries = this.load();
+        }
+
+        //#region Public API
+
+        /**
+         * Used to determine if responses should be cached at all.
+         * 
+         * @returns True if the cache is enabled via the configuration.
+         */
+        public isEnabled(): boolean {
+            return !!this.config && this.config.enabled;
+        }
+
+        /**
+         * Used to get the key that identifies the given request in the cache. This is made up
+         * of the method, URL, query parameters, and the values of the headers listed in the
+         * cache configuration. The authorization header is hashed so that responses for
+         * different users are kept apart without persisting their credentials.
+         * 
+         * @param config The configuration of the request; the URL must already include the base URL.
+         * @returns The key for the request.
+         */
+        public getKey(config: Interfaces.RequestConfig): string {
+            var parts: string[],
+                params: any[];
+
+            params = _.map(_.keys(config.params || {}).sort(), (name: string) => {
+                return [name, config.params[name]];
+            });
+
+            parts = [config.method.toUpperCase(), config.url, JSON.stringify(params)];
+
+            _.each(this.config.keyHeaders, (headerName: string) => {
+                var value = this.getHeader(config.headers, headerName);
+
+                if (value && headerName.toLowerCase() === "authorization") {
+                    value = this.CryptoUtilities.toHex(this.CryptoUtilities.sha256(value));
+                }
+
+                parts.push(headerName.toLowerCase() + ":" + (value || ""));
+            });
+
+            return parts.join("\n");
+        }
+
+        /**
+         * Used to get the cached response for the given key.
+         * 
+         * @param key The key of the request; see getKey().
+         * @returns The cached response, or null if there isn't one.
+         */
+        public get(key: string): Models.CacheEntry {
+            var entry = this.entries[key];
+
+            if (!entry) {
+                return null;
+            }
+
+            entry.lastAccessedAt = new Date();
+
+            return entry;
+        }
+
+        /**
+         * Used to store the given successful response. Responses with a Cache-Control header
+         * of no-store are not stored, and any previously cached response is removed.
+         * 
+         * @param key The key of the request; see getKey().
+         * @param httpResponse The response to store.
+         * @returns The cached response, or null if it was not stored.
+         */
+        public put(key: string, httpResponse: ng.IHttpPromiseCallbackArg<any>): Models.CacheEntry {
+            var headers: { [name: string]: string },
+                entry: Models.CacheEntry;
+
+            headers = (<any>httpResponse.headers)() || {};
+
+            if (httpResponse.status !== 200 || /no-store/i.test(headers["cache-control"] || "")) {
+                this.remove(key);
+                return null;
+            }
+
+            entry = new Models.CacheEntry();
+            entry.key = key;
+            entry.url = httpResponse.config.url.split("?")[0];
+            entry.status = httpResponse.status;
+            entry.statusText = httpResponse.statusText;
+            entry.headers = headers;
+            entry.data = httpResponse.data;
+            entry.storedAt = new Date();
+            entry.expiresAt = this.getExpiration(headers, moment(entry.storedAt));
+            /*tslint:disable no-string-literal*/
+            entry.etag = headers["etag"] || null;
+            /*tslint:enable no-string-literal*/
+            entry.lastModified = headers["last-modified"] || null;
+            entry.lastAccessedAt = entry.storedAt;
+
+            this.entries[key] = entry;
+            this.evict();
+            this.save();
+
+            return entry;
+        }
+
+        /**
+         * Used to mark the cached response for the given key as fresh after the server has
+         * responded with a 304 (Not Modified). Any caching headers included with the 304
+         * replace the ones that were stored with the response.
+         * 
+         * @param key The key of the request; see getKey().
+         * @param httpResponse The 304 response.
+         * @returns The cached response, or null if there isn't one.
+         */
+        public revalidate(key: string, httpResponse: ng.IHttpPromiseCallbackArg<any>): Models.CacheEntry {
+            var entry = this.entries[key],
+                headers: { [name: string]: string };
+
+            if (!entry) {
+                return null;
+            }
+
+            headers = (<any>httpResponse.headers)() || {};
+
+            _.each(["cache-control", "expires", "etag", "last-modified"], (name: string) => {
+                if (headers[name]) {
+                    entry.headers[name] = headers[name];
+                }
+            });
+
+            entry.storedAt = new Date();
+            entry.expiresAt = this.getExpiration(entry.headers, moment(entry.storedAt));
+            /*tslint:disable no-string-literal*/
+            entry.etag = entry.headers["etag"] || null;
+            /*tslint:enable no-string-literal*/
+            entry.lastModified = entry.headers["last-modified"] || null;
+            entry.lastAccessedAt = entry.storedAt;
+
+            this.save();
+
+            return entry;
+        }
+
+        /**
+         * Used to determine if the given cached response can be served without revalidating it.
+         * 
+         * @param entry The cached response.
+         * @returns True if the response has not yet expired.
+         */
+        public isFresh(entry: Models.CacheEntry): boolean {
+            return !!entry.expiresAt && moment().isBefore(entry.expiresAt);
+        }
+
+        /**
+         * Used to create a response for the given request from the given cached response. This
+         * has the same shape as the responses that the $http service resolves with.
+         * 
+         * @param entry The cached response.
+         * @param config The configuration of the request.
+         * @returns The response.
+         */
+        public createResponse(entry: Models.CacheEntry, config: Interfaces.RequestConfig): ng.IHttpPromiseCallbackArg<any> {
+            var headers = _.clone(entry.headers);
+
+            return {
+                data: _.cloneDeep(entry.data),
+                status: entry.status,
+                statusText: entry.statusText,
+                config: config,
+                headers: (headerName?: string) => {
+                    return headerName ? headers[headerName.toLowerCase()] || null : <any>headers;
+                }
+            };
+        }
+
+        /**
+         * Used to create an object that can be set as the cache of an $http request so that the
+         * given cached response is served instead of making the request.
+         * 
+         * @param entry The cached response.
+         * @returns An object that implements the parts of Angular's cache object used by $http.
+         */
+        public createCacheObject(entry: Models.CacheEntry): any {
+            return {
+                get: () => {
+                    return [entry.status, _.cloneDeep(entry.data), _.clone(entry.headers), entry.statusText];
+                },
+                put: angular.noop,
+                remove: angular.noop
+            };
+        }
+
+        /**
+         * Used to remove the cached responses for the given URL, regardless of their query
+         * parameters or headers. This is used when a request modifies the resource.
+         * 
+         * @param url The URL of the resource.
+         */
+        public invalidate(url: string): void {
+            var path = url.split("?")[0],
+                keys: string[];
+
+            keys = _.keys(_.pick(this.entries, (entry: Models.CacheEntry) => {
+                return entry.url === path;
+            }));
+
+            if (keys.length === 0) {
+                return;
+            }
+
+            this.entries = <{ [key: string]: Models.CacheEntry }>_.omit(this.entries, keys);
+            this.save();
+        }
+
+        /**
+         * Used to remove the cached response for the given key.
+         * 
+         * @param key The key of the request; see getKey().
+         */
+        public remove(key: string): void {
+
+            if (!this.entries[key]) {
+                return;
+            }
+
+            delete this.entries[key];
+            this.save();
+        }
+
+        /**
+         * Used to get the number of responses that are cached.
+         * 
+         * @returns The number of cached responses.
+         */
+        public getCount(): number {
+            return _.size(this.entries);
+        }
+
+        /**
+         * Used to remove all of the cached responses.
+         */
+        public clear(): void {
+            this.entries = {};
+            this.save();
+        }
+
+        //#endregion
+
+        //#region Private Helper Methods
+
+        /**
+         * Used to determine when a response expires based on its caching headers. A max-age
+         * directive takes precedence over the Expires header. Responses with the no-cache
+         * directive, or without either header, must be revalidated each time they are used.
+         * 
+         * @param headers The headers of the response, with lower case names.
+         * @param storedAt The time at which the response was received.
+         * @returns The time at which the response becomes stale.
+         */
+        private getExpiration(headers: { [name: string]: string }, storedAt: Moment): Date {
+            var cacheControl = headers["cache-control"] || "",
+                maxAge: RegExpExecArray,
+                expires: Moment;
+
+            if (/no-cache/i.test(cacheControl)) {
+                return storedAt.toDate();
+            }
+
+            maxAge = /max-age=(\d+)/i.exec(cacheControl);
+
+            if (maxAge) {
+                return storedAt.clone().add(parseInt(maxAge[1], 10), "seconds").toDate();
+            }
+
+            /*tslint:disable no-string-literal*/
+            if (headers["expires"]) {
+                expires = moment(new Date(headers["expires"]));
+
+                if (expires.isValid()) {
+                    return expires.toDate();
+                }
+            }
+            /*tslint:enable no-string-literal*/
+
+            return storedAt.toDate();
+        }
+
+        /**
+         * Used to get the value of the given header, ignoring the case of its name.
+         * 
+         * @param headers The headers of a request.
+         * @param headerName The name of the header.
+         * @returns The value of the header, or null if it isn't present.
+         */
+        private getHeader(headers: { [name: string]: any }, headerName: string): string {
+            var value: any = null;
+
+            _.each(headers, (headerValue: any, name: string) => {
+                if (name.toLowerCase() === headerName.toLowerCase()) {
+                    value = headerValue;
+                }
+            });
+
+            return value == null ? null : value + "";
+        }
+
+        /**
+         * Removes the least recently used entries until the cache is within the maximum size.
+         */
+        private evict(): void {
+            var overflow = this.getCount() - this.config.maxEntries,
+                keys: string[];
+
+            if (overflow <= 0) {
+                return;
+            }
+
+            keys = _.first(_.pluck(_.sortBy(_.values(this.entries), (entry: Models.CacheEntry) => {
+                return moment(entry.lastAccessedAt).valueOf();
+            }), "key"), overflow);
+
+            this.entries = <{ [key: string]: Models.CacheEntry }>_.omit(this.entries, keys);
+        }
+
+        /**
+         * Used to read the cache from local storage.
+         * 
+         * @returns A dictionary of keys to cached responses.
+         */
+        private load(): { [key: string]: Models.CacheEntry } {
+            var json = localStorage.getItem(HttpCache.STORAGE_KEY);
+
+            if (!json) {
+                return {};
+            }
+
+            try {
+                return JSON.parse(json);
+            } catch (exception) {
+                console.warn("Unable to parse the persisted HTTP cache; it will be discarded.", exception);
+                return {};
+            }
+        }
+
+        /**
+         * Used to write the cache to local storage. If local storage is full, the cache is kept
+         * in-memory only until it is next written.
+         */
+        private save(): void {
+
+            if (this.getCount() === 0) {
+                localStorage.removeItem(HttpCache.STORAGE_KEY);
+                return;
+            }
+
+            try {
+                localStorage.setItem(HttpCache.STORAGE_KEY, JSON.stringify(this.entries));
+            } catch (exception) {
+                console.warn("Unable to persist the HTTP cache; it will be kept in-memory only.", exception);
+                localStorage.removeItem(HttpCache.STORAGE_KEY);
+            }
+        }
+
+        //#endregion
+    }
+}
\ No newline at end of file
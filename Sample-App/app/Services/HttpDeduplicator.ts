@@ -0,0 +1,290 @@
+﻿module JustinCredible.SampleApp.Services {
+
+    /**
+     * Describes a GET request that is in progress and the callers that are waiting on it.
+     */
+    interface IInFlightRequest {
+
+        /**
+         * The promise of the request that was actually sent.
+         */
+        promise: ng.IPromise<any>;
+
+        /**
+         * Cancels the request that was actually sent; this happens once every caller that is
+         * waiting on it has cancelled.
+         */
+        cancellationToken: Models.CancellationToken;
+
+        /**
+         * The number of callers that are still waiting on the request.
+         */
+        subscriberCount: number;
+    }
+
+    /**
+     * Provides a way for identical GET requests that are made at the same time (eg by several
+     * controllers on navigation) to share a single network request.
+     * 
+     * Requests are identical if they have the same URL, query parameters, and headers (including
+     * the credentials that the Authenticator will add). The $http service is decorated via
+     * decorateHttp() so that each caller receives a promise for the shared request; if one of the
+     * callers cancels its request (see Interfaces.RequestConfig.cancellationToken), only that
+     * caller's promise is rejected unless all of the callers have cancelled.
+     * 
+     * Requests can opt out via the skipDeduplication flag on Interfaces.RequestConfig.
+     */
+    export class HttpDeduplicator {
+
+        public static $inject = ["$q", "Utilities", "Authenticator"];
+
+        private $q: ng.IQService;
+        private Utilities: Utilities;
+        private Authenticator: Authenticator;
+
+        /**
+         * The GET requests that are in progress, keyed by request; see getKey().
+         */
+        private inFlight: { [key: string]: IInFlightRequest };
+
+        constructor($q: ng.IQService, Utilities: Utilities, Authenticator: Authenticator) {
+            this.$q = $q;
+            this.Utilities = Utilities;
+            this.Authenticator = Authenticator;
+
+            this.inFlight = {};
+        }
+
+        //#region Public API
+
+        /**
+         * Used to decorate the $http service so that its requests (including those made via
+         * $http.get) go through this service.
+         * 
+         * @param $provide The provider service which will be used to obtain and decorate the $http service.
+         */
+        public static decorateHttp($provide: ng.auto.IProvideService): void {
+
+            $provide.decorator("$http", function ($delegate: ng.IHttpService, $injector: ng.auto.IInjectorService) {
+                var proxy: any;
+
+                proxy = function (config: Interfaces.RequestConfig): ng.IHttpPromise<any> {
+                    // This service is resolved lazily, since its dependencies may depend on $http.
+                    var deduplicator: HttpDeduplicator = $injector.get("HttpDeduplicator");
+
+                    return deduplicator.send($delegate, config);
+                };
+
+                /*tslint:disable forin*/
+                for (var key in $delegate) {
+                    proxy[key] = $delegate[key];
+                }
+                /*tslint:enable forin*/
+
+                // The shortcut methods call the original $http function, so the GET shortcut
+                // needs to be replaced; the other methods are never de-duplicated.
+                proxy.get = function (url: string, config?: Interfaces.RequestConfig): ng.IHttpPromise<any> {
+                    return proxy(angular.extend(config || {}, { method: "GET", url: url }));
+                };
+
+                return proxy;
+            });
+        }
+
+        /**
+         * Used to send the given request using the given $http service. If an identical GET
+         * request is already in progress, no new request is sent and the returned promise is
+         * resolved or rejected along with the request that is in progress.
+         * 
+         * Callers that share a request receive the same response object, so they should not
+         * modify its data.
+         * 
+         * @param $http The original (undecorated) $http service.
+         * @param config The configuration of the request.
+         * @returns A promise for the response, which has the success() and error() methods of $http.
+         */
+        public send($http: ng.IHttpService, config: Interfaces.RequestConfig): ng.IHttpPromise<any> {
+            var key: string,
+                request: IInFlightRequest,
+                sharedConfig: Interfaces.RequestConfig,
+                cleanup: () => void;
+
+            if (!this.shouldDeduplicate(config)) {
+                return $http(config);
+            }
+
+            key = this.getKey(config);
+            request = this.inFlight[key];
+
+            if (!request) {
+                request = {
+                    promise: null,
+                    cancellationToken: new Models.CancellationToken(),
+                    subscriberCount: 0
+                };
+
+                // The request that is sent is cancelled via its own token, since it may outlive
+                // the caller that happened to make it first.
+                sharedConfig = <Interfaces.RequestConfig>_.clone(config);
+                sharedConfig.cancellationToken = request.cancellationToken;
+
+                this.inFlight[key] = request;
+
+                cleanup = () => {
+                    if (this.inFlight[key] === request) {
+                        delete this.inFlight[key];
+                    }
+                };
+
+                request.promise = $http(sharedConfig);
+                request.promise.then(cleanup, cleanup);
+            }
+
+            return this.subscribe(request, config);
+        }
+
+        //#endregion
+
+        //#region Private Helper Methods
+
+        /**
+         * Used to determine if the given request may share a network request with others. Only
+         * GET requests are shared, and retried or replayed attempts are always sent, since the
+         * original attempt is still in progress.
+         * 
+         * @param config The configuration of the request.
+         * @returns True if the request should be de-duplicated.
+         */
+        private shouldDeduplicate(config: Interfaces.RequestConfig): boolean {
+            return !!config
+                && !!config.url
+                && (config.method || "").toUpperCase() === "GET"
+                && !config.skipDeduplication
+                && !config.retryAttempt
+                && !config.tokenRefreshAttempted;
+        }
+
+        /**
+         * Used to get the key that identifies the given request. This is made up of the URL,
+         * query parameters, and headers; API requests also include the credentials that the
+         * Authenticator will add, so requests made on behalf of different users are kept apart.
+         * 
+         * @param config The configuration of the request.
+         * @returns The key for the request.
+         */
+        private getKey(config: Interfaces.RequestConfig): string {
+            var headers: { [name: string]: any },
+                headerValues: any[],
+                params: any[];
+
+            headers = _.clone(config.headers || {});
+
+            if (this.Utilities.startsWith(config.url, "~")) {
+                this.Authenticator.applyCredentials(headers);
+            }
+
+            params = _.map(_.keys(config.params || {}).sort(), (name: string) => {
+                return [name, config.params[name]];
+            });
+
+            headerValues = _.map(_.keys(headers).sort(), (name: string) => {
+                return [name.toLowerCase(), headers[name]];
+            });
+
+            return ["GET", config.url, JSON.stringify(params), JSON.stringify(headerValues)].join("\n");
+        }
+
+        /**
+         * Used to create a promise for the given caller that follows the given request. If the
+         * caller's cancellation token is cancelled first, its promise is rejected like any other
+         * cancelled request, and the request itself is cancelled once no callers are waiting.
+         * 
+         * @param request The request that is in progress.
+         * @param config The configuration of the caller's request.
+         * @returns A promise for the response.
+         */
+        private subscribe(request: IInFlightRequest, config: Interfaces.RequestConfig): ng.IHttpPromise<any> {
+            var q = this.$q.defer<any>(),
+                isSettled = false,
+                unregister: () => void = angular.noop;
+
+            request.subscriberCount += 1;
+
+            request.promise.then((httpResponse: ng.IHttpPromiseCallbackArg<any>) => {
+                if (!isSettled) {
+                    isSettled = true;
+                    unregister();
+                    q.resolve(httpResponse);
+                }
+            }, (httpResponse: ng.IHttpPromiseCallbackArg<any>) => {
+                if (!isSettled) {
+                    isSettled = true;
+                    unregister();
+                    q.reject(httpResponse);
+                }
+            });
+
+            if (config.cancellationToken) {
+                unregister = config.cancellationToken.register((reason: string) => {
+
+                    if (isSettled) {
+                        return;
+                    }
+
+                    isSettled = true;
+                    request.subscriberCount -= 1;
+
+                    if (request.subscriberCount === 0) {
+                        request.cancellationToken.cancel(reason);
+                    }
+
+                    config.cancelled = true;
+
+                    q.reject({
+                        data: null,
+                        status: 0,
+                        statusText: "",
+                        config: config,
+                        headers: (headerName?: string) => {
+                            return headerName ? null : <any>{};
+                        }
+                    });
+                });
+            }
+
+            return this.createHttpPromise(q.promise, config);
+        }
+
+        /**
+         * Used to add the success() and error() methods that $http adds to its promises to the
+         * given promise, so callers that use them work whether or not their request is shared.
+         * 
+         * @param promise The promise for the response.
+         * @param config The configuration of the caller's request.
+         * @returns The given promise.
+         */
+        private createHttpPromise(promise: ng.IPromise<any>, config: Interfaces.RequestConfig): ng.IHttpPromise<any> {
+            var httpPromise = <ng.IHttpPromise<any>>promise;
+
+            httpPromise.success = (callback: ng.IHttpPromiseCallback<any>) => {
+                promise.then((httpResponse: ng.IHttpPromiseCallbackArg<any>) => {
+                    callback(httpResponse.data, httpResponse.status, httpResponse.headers, config);
+                });
+
+                return httpPromise;
+            };
+
+            httpPromise.error = (callback: ng.IHttpPromiseCallback<any>) => {
+                promise.then(null, (httpResponse: ng.IHttpPromiseCallbackArg<any>) => {
+                    callback(httpResponse.data, httpResponse.status, httpResponse.headers, config);
+                });
+
+                return httpPromise;
+            };
+
+            return httpPromise;
+        }
+
+        //#endregion
+    }
+}
\ No newline at end of file
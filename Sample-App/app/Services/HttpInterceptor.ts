@@ -3,30 +3,82 @@
     /**
      * This is a custom interceptor for Angular's $httpProvider.
      * 
-     * It allows us to inject the token into the header, log request and responses,
-     * and handle the showing and hiding of the user blocking UI elements, progress
-     * bar and spinner.
+     * It allows us to inject the token into the header, sign requests, log request and
+     * responses, time requests, cache responses, abort requests that time out or are
+     * cancelled, retry failed requests, refresh the token when it is rejected, queue requests
+     * made while offline, and handle the showing and hiding of the user blocking UI elements,
+     * progress bar and spinner.
      */
     export class HttpInterceptor {
 
+        /**
+         * The values used for any properties that are not set on a request's retry policy.
+         */
+        private static DEFAULT_RETRY_POLICY: Interfaces.RetryPolicy = {
+            maxAttempts: 3,
+            delayInMilliseconds: 1000,
+            maxDelayInMilliseconds: 10000,
+            jitter: 0.2,
+            retryableStatuses: [0, 500, 502, 503, 504],
+            retryNonIdempotentMethods: false
+        };
+
+        /**
+         * The HTTP methods that can safely be retried by default, since repeating the request
+         * has the same effect as making it once.
+         */
+        private static IDEMPOTENT_METHODS = ["GET", "HEAD", "OPTIONS", "PUT", "DELETE"];
+
+        /**
+         * The HTTP methods of the requests that can be added to the RequestQueue.
+         */
+        private static QUEUEABLE_METHODS = ["POST", "PUT", "PATCH", "DELETE"];
+
+        /**
+         * The number of milliseconds after which requests are aborted if they don't specify
+         * their own timeout.
+         */
+        private static DEFAULT_TIMEOUT_IN_MILLISECONDS = 30000;
+
         private $rootScope: ng.IRootScopeService;
+        private $injector: ng.auto.IInjectorService;
         private $q: ng.IQService;
+        private $timeout: ng.ITimeoutService;
         private Preferences: Services.Preferences;
         private Utilities: Utilities;
         private Logger: Services.Logger;
-        private apiVersion: string;
+        private Authenticator: Services.Authenticator;
+        private RequestQueue: Services.RequestQueue;
+        private HttpCache: Services.HttpCache;
+        private ApiEnvironments: Services.ApiEnvironments;
+        private CircuitBreaker: Services.CircuitBreaker;
+        private RequestSigner: Services.RequestSigner;
+        private tokenRefreshConfig: Interfaces.TokenRefreshConfig;
 
         private requestsInProgress: number;
         private blockingRequestsInProgress: number;
         private spinnerRequestsInProgress: number;
 
-        constructor($rootScope: ng.IRootScopeService, $q: ng.IQService, Preferences: Services.Preferences, Utilities: Services.Utilities, Logger: Services.Logger, apiVersion: string) {
+        /**
+         * The promise for the token refresh that is in progress, or null if there isn't one.
+         */
+        private tokenRefresh: ng.IPromise<void>;
+
+        constructor($rootScope: ng.IRootScopeService, $injector: ng.auto.IInjectorService, $q: ng.IQService, $timeout: ng.ITimeoutService, Preferences: Services.Preferences, Utilities: Services.Utilities, Logger: Services.Logger, Authenticator: Services.Authenticator, RequestQueue: Services.RequestQueue, HttpCache: Services.HttpCache, ApiEnvironments: Services.ApiEnvironments, CircuitBreaker: Services.CircuitBreaker, RequestSigner: Services.RequestSigner, tokenRefreshConfig: Interfaces.TokenRefreshConfig) {
             this.$rootScope = $rootScope;
+            this.$injector = $injector;
             this.$q = $q;
+            this.$timeout = $timeout;
             this.Preferences = Preferences;
             this.Utilities = Utilities;
             this.Logger = Logger;
-            this.apiVersion = apiVersion;
+            this.Authenticator = Authenticator;
+            this.RequestQueue = RequestQueue;
+            this.HttpCache = HttpCache;
+            this.ApiEnvironments = ApiEnvironments;
+            this.CircuitBreaker = CircuitBreaker;
+            this.RequestSigner = RequestSigner;
+            this.tokenRefreshConfig = tokenRefreshConfig;
 
             this.requestsInProgress = 0;
             this.blockingRequestsInProgress = 0;
@@ -46,9 +98,9 @@
 
             // Angular expects the factory function to return the object that is used
             // for the factory when it is injected into other objects.
-            factory = function ($rootScope: ng.IRootScopeService, $q: ng.IQService, Preferences: Services.Preferences, Utilities: Services.Utilities, Logger: Services.Logger, apiVersion: string) {
+            factory = function ($rootScope: ng.IRootScopeService, $injector: ng.auto.IInjectorService, $q: ng.IQService, $timeout: ng.ITimeoutService, Preferences: Services.Preferences, Utilities: Services.Utilities, Logger: Services.Logger, Authenticator: Services.Authenticator, RequestQueue: Services.RequestQueue, HttpCache: Services.HttpCache, ApiEnvironments: Services.ApiEnvironments, CircuitBreaker: Services.CircuitBreaker, RequestSigner: Services.RequestSigner, tokenRefreshConfig: Interfaces.TokenRefreshConfig) {
                 // Create an instance our strongly-typed service.
-                var instance = new HttpInterceptor($rootScope, $q, Preferences, Utilities, Logger, apiVersion);
+                var instance = new HttpInterceptor($rootScope, $injector, $q, $timeout, Preferences, Utilities, Logger, Authenticator, RequestQueue, HttpCache, ApiEnvironments, CircuitBreaker, RequestSigner, tokenRefreshConfig);
 
                 // Return an object that exposes the functions that we want to be exposed.
                 // We use bind here so that the correct context is used (Angular normally
@@ -62,7 +114,7 @@
             };
 
             // Annotate the factory function with the things that should be injected.
-            factory.$inject = ["$rootScope", "$q", "Preferences", "Utilities", "Logger", "apiVersion"];
+            factory.$inject = ["$rootScope", "$injector", "$q", "$timeout", "Preferences", "Utilities", "Logger", "Authenticator", "RequestQueue", "HttpCache", "ApiEnvironments", "CircuitBreaker", "RequestSigner", "tokenRefreshConfig"];
 
             return factory;
         }
@@ -73,9 +125,13 @@
          * Fired when an HTTP request is being made. This is where the configuration
          * object (eg URL, HTTP headers, etc) can be modified before the request goes
          * out.
+         * 
+         * If the token is being refreshed, API requests are held until the refresh completes,
+         * in which case a promise for the configuration object is returned instead.
          */
-        public request(config: Interfaces.RequestConfig): Interfaces.RequestConfig {
-            var baseUrl: string;
+        public request(config: Interfaces.RequestConfig): any {
+            var environment: Interfaces.ApiEnvironment,
+                baseUrl: string;
 
             console.log("HttpInterceptor.request: " + config.url, [config]);
 
@@ -84,38 +140,109 @@
                 return config;
             }
 
+            // Hold API requests while the token is being refreshed so they are sent with the new
+            // token. If the token is known to have expired, refresh it before sending the request.
+            if (this.Utilities.startsWith(config.url, "~") && !config.skipTokenRefresh) {
+
+                if (!this.tokenRefresh && this.tokenRefreshConfig && this.tokenRefreshConfig.enabled && this.Authenticator.isTokenExpired()) {
+                    this.startTokenRefresh();
+                }
+
+                if (this.tokenRefresh) {
+                    return this.tokenRefresh.then(() => {
+                        return this.continueAfterTokenRefresh(config);
+                    }, () => {
+                        return this.continueAfterTokenRefresh(config);
+                    });
+                }
+            }
+
+            // Give each API request a correlation ID so it can be found in the server's traces.
+            if (this.Utilities.startsWith(config.url, "~") && !config.requestId) {
+                config.requestId = this.Utilities.generateGuid();
+            }
+
+            // If the service is known to be down, fail immediately without showing the spinner
+            // or blocking the UI. Retried attempts are checked again, since the circuit may have
+            // been opened since the initial attempt.
+            if (this.CircuitBreaker.isEnabled() && (config.circuitKey || this.Utilities.startsWith(config.url, "~"))) {
+
+                if (!config.circuitKey) {
+                    environment = this.ApiEnvironments.getCurrent();
+                    config.circuitKey = this.CircuitBreaker.getKey(config.url, environment ? environment.baseUrl : "");
+                }
+
+                config.circuitOpen = false;
+
+                if (!this.CircuitBreaker.allowRequest(config.circuitKey)) {
+                    return this.rejectOpenCircuit(config);
+                }
+
+                config.circuitProbe = this.CircuitBreaker.isProbing(config.circuitKey);
+            }
+
             // Log the request data to disk.
-            if (this.Preferences.enableFullHttpLogging) {
+            if (this.Preferences.enableFullHttpLogging && !config.suppressLogging) {
                 this.Logger.logHttpRequestConfig(config);
             }
 
-            // Keep track of how many requests are in progress and show spinners etc.
-            this.handleRequestStart(config);
+            // Time the request so it is included in the performance summary.
+            if (!config.suppressLogging) {
+                config.timerId = this.Logger.startTimer("http", this.getEndpointName(config));
+            }
+
+            // Abort the request if it takes too long or if its cancellation token is cancelled.
+            this.startTimeout(config);
+
+            // Keep track of how many requests are in progress and show spinners etc. Retried,
+            // replayed, and re-signed requests are still counted from their initial attempt, so
+            // they are skipped here.
+            if (!config.retryAttempt && !config.tokenRefreshAttempted && !config.signatureRetried) {
+                this.handleRequestStart(config);
+            }
+
+            // Files uploaded via the FileUploader report their progress, which is used to update
+            // the spinner and blocking UI.
+            if (config.data instanceof Models.FileUpload) {
+                config.progressPercent = null;
+                config.progressStartedAt = null;
+
+                (<Models.FileUpload>config.data).onProgress = (loaded: number, total: number) => {
+                    this.handleProgress(config, loaded, total);
+                };
+            }
 
             // If the URL starts with a tilde, we know this is a URL for one of our own restful API
             // endpoints. In this case, we'll add our required headers, authorization token, and the
-            // base URL for the current data source.
+            // base URL for the currently selected environment.
             if (this.Utilities.startsWith(config.url, "~")) {
+                environment = this.ApiEnvironments.getCurrent();
+
                 /*tslint:disable no-string-literals*/
 
                 // Specify the version of the API we can consume.
-                config.headers["X-API-Version"] = this.apiVersion;
+                config.headers["X-API-Version"] = environment.apiVersion;
+
+                // Identify the request and the application session for server-side tracing.
+                config.headers["X-Request-ID"] = config.requestId;
+                config.headers["X-Session-ID"] = this.Logger.getSessionId();
 
                 // Specify the content type we are sending and the payload type that we want to receive.
                 config.headers["Content-Type"] = "application/json";
                 config.headers["Accept"] = "application/json";
 
-                // If we currently have a user ID and token, then include it in the authorization header.
-                if (this.Preferences.userId && this.Preferences.token) {
-                    config.headers["Authorization"] = this.getAuthorizationHeader(this.Preferences.userId, this.Preferences.token);
-                }
-
                 /*tslint:enable no-string-literals*/
 
-                if (this.Preferences.apiUrl && this.Preferences.apiUrl) {
+                // If we currently have credentials, then include them using the configured strategy.
+                config.authenticated = this.Authenticator.applyCredentials(config.headers);
 
-                    // Grab the base data source URL.
-                    baseUrl = this.Preferences.apiUrl;
+                if (environment && environment.baseUrl) {
+
+                    // Grab the base URL of the environment.
+                    baseUrl = environment.baseUrl;
+
+                    // Keep the original URL so the request can be queued and sent again later.
+                    config.originalUrl = config.url;
 
                     // Remove the leading tilde character.
                     config.url = config.url.substring(1);
@@ -134,11 +261,27 @@
                         config.url = "/" + config.url;
                     }
 
-                    // Prepend the base data source URL.
+                    // Prepend the base URL of the environment.
                     config.url = baseUrl + config.url;
                 }
                 else {
-                    throw new Error("An HTTP call cannot be made because a data source was not selected.");
+                    throw new Error("An HTTP call cannot be made because an API environment was not selected.");
+                }
+
+                // Depending on the cache mode, serve the response from the cache or ask the server
+                // if the cached response is still valid.
+                if (this.isCacheable(config)) {
+                    this.applyCache(config);
+                }
+            }
+
+            // Sign the request if the environment requires it. This is done for each attempt
+            // (eg retries) so that each one is sent with its own timestamp and nonce.
+            if (!config.servedFromCache) {
+                environment = this.ApiEnvironments.getCurrent();
+
+                if (this.RequestSigner.shouldSign(config, environment)) {
+                    return this.signRequest(config, environment);
                 }
             }
 
@@ -162,10 +305,17 @@
             }
 
             // Log the response data to disk.
-            if (this.Preferences.enableFullHttpLogging) {
+            if (this.Preferences.enableFullHttpLogging && !config.suppressLogging) {
                 this.Logger.logHttpResponse(httpResponse);
             }
 
+            this.addHttpBreadcrumb(httpResponse);
+            this.stopTimer(config);
+            this.releaseTimeout(config);
+            this.updateCircuit(httpResponse);
+            this.updateCache(httpResponse);
+            this.RequestSigner.recordServerTime(httpResponse);
+
             // Keep track of how many requests are still in progress and hide spinners etc.
             this.handleResponseEnd(config);
 
@@ -200,6 +350,8 @@
 
                 // Keep track of how many requests are still in progress and hide spinners etc.
                 if (config) {
+                    this.stopTimer(config);
+                    this.releaseTimeout(config);
                     this.handleResponseEnd(config);
                 }
             }
@@ -213,10 +365,11 @@
          * Additionally, this can fire when there are uncaught exceptions (eg JavaScript errors)
          * in the HttpInterceptfor response method.
          */
-        public responseError(responseOrError: any) {
+        public responseError(responseOrError: any): ng.IPromise<any> {
             var httpResponse: ng.IHttpPromiseCallbackArg<any>,
                 exception: Error,
-                config: Interfaces.RequestConfig;
+                config: Interfaces.RequestConfig,
+                entry: Models.CacheEntry;
 
             console.log("HttpInterceptor.responseError", [httpResponse]);
 
@@ -236,23 +389,98 @@
                     return this.$q.reject(responseOrError);
                 }
 
-                // Always log error responses.
-                this.Logger.logHttpResponse(httpResponse);
+                // Requests that were rejected by the circuit breaker or couldn't be signed were
+                // never sent, so there is nothing to log, retry, or queue.
+                if (config.circuitOpen || config.signingFailed) {
+                    this.handleResponseEnd(config);
+                    return this.$q.reject(responseOrError);
+                }
 
-                // Keep track of how many requests are still in progress and hide spinners etc.
-                this.handleResponseEnd(config);
+                // Stop watching for the timeout of this attempt; if the request is retried, the
+                // next attempt gets its own timeout.
+                this.releaseTimeout(config);
+
+                // Requests that were cancelled (eg because the view that made them was destroyed)
+                // aren't errors, so they are not logged, retried, queued, or served from the cache.
+                if (config.cancelled) {
+
+                    if (config.circuitProbe) {
+                        this.CircuitBreaker.releaseProbe(config.circuitKey);
+                    }
+
+                    this.endCancelledRequest(config);
+                    return this.$q.reject(responseOrError);
+                }
+
+                if (config.timedOut) {
+                    httpResponse.statusText = "Timed Out";
+                }
+
+                this.updateCircuit(httpResponse);
+                this.RequestSigner.recordServerTime(httpResponse);
+
+                // A 304 means the cached response is still valid, so it is used as the response.
+                if (httpResponse.status === 304 && config.cacheKey) {
+                    entry = this.HttpCache.revalidate(config.cacheKey, httpResponse);
+
+                    if (entry) {
+                        if (this.Preferences.enableFullHttpLogging && !config.suppressLogging) {
+                            this.Logger.logHttpResponse(httpResponse);
+                        }
+
+                        this.addHttpBreadcrumb(httpResponse);
+
+                        return this.$q.when(this.respondFromCache(entry, config));
+                    }
+                }
 
-                // For certain response codes, we'll broadcast an event to the rest of the app
-                // so that it can handle the event in whatever way is appropriate.
-                if (httpResponse.status === 401) {
-                    this.$rootScope.$broadcast("http.unauthorized");
+                // Always log error responses, unless the caller has asked us not to.
+                if (!config.suppressLogging) {
+                    this.Logger.logHttpResponse(httpResponse);
                 }
-                else if (httpResponse.status === 403) {
-                    this.$rootScope.$broadcast("http.forbidden");
+
+                this.addHttpBreadcrumb(httpResponse);
+                this.stopTimer(config);
+
+                // If the signature was rejected and the response showed that the device's clock
+                // is out of sync with the server's, sign the request again using the server's time
+                // and resend it (only once, so a bad key doesn't cause a loop).
+                if (httpResponse.status === 401 && !config.signatureRetried && this.RequestSigner.isSignatureStale(config)) {
+                    return this.resendWithNewSignature(config);
+                }
+
+                // Re-issue the request if its retry policy allows it. The request remains in
+                // progress, so the spinner and blocking UI are left as-is until it finishes.
+                if (this.shouldRetry(httpResponse)) {
+                    return this.retry(config);
                 }
-                else if (httpResponse.status === 404) {
-                    this.$rootScope.$broadcast("http.notFound");
+
+                // If the server couldn't be reached, use the cached response even if it is stale.
+                if (httpResponse.status === 0 && config.cacheKey) {
+                    entry = this.HttpCache.get(config.cacheKey);
+
+                    if (entry) {
+                        return this.$q.when(this.respondFromCache(entry, config));
+                    }
                 }
+
+                // If the token was rejected, get a new one and replay the request with it. The
+                // request remains in progress while this happens.
+                if (this.shouldRefreshToken(httpResponse)) {
+                    return this.refreshTokenAndReplay(httpResponse);
+                }
+
+                // If the request couldn't reach the server, hold on to it so it can be sent once
+                // the device is back online. The caller still receives the rejection, but can
+                // check the queued request ID to tell the user their change will be sent later.
+                if (this.shouldQueue(httpResponse)) {
+                    config.queuedRequestId = this.RequestQueue.enqueue(config).id;
+                }
+
+                // Keep track of how many requests are still in progress and hide spinners etc.
+                this.handleResponseEnd(config);
+
+                this.broadcastStatus(httpResponse);
             }
 
             return this.$q.reject(responseOrError);
@@ -278,6 +506,8 @@
                 config.showSpinner = true;
             }
 
+            config.inProgress = true;
+
             // Increment the total number of HTTP requests that are in progress.
             this.requestsInProgress += 1;
 
@@ -317,6 +547,96 @@
             }
         }
 
+        /**
+         * Handles the progress reported by a request by invoking its progress callback and, once
+         * the total size is known, showing how much of it has been sent. This is only shown if no
+         * other requests are using the spinner or blocking UI, since their progress isn't known.
+         * 
+         * @param config The configuration of the request.
+         * @param loaded The number of bytes that have been sent.
+         * @param total The total number of bytes to send, or zero if this isn't known.
+         */
+        private handleProgress(config: Interfaces.RequestConfig, loaded: number, total: number): void {
+            var progress: Interfaces.TransferProgress;
+
+            // Ignore progress that is reported after the request has ended (eg was cancelled).
+            if (!config.inProgress) {
+                return;
+            }
+
+            progress = {
+                loaded: loaded,
+                total: total,
+                lengthComputable: total > 0,
+                percent: total > 0 ? Math.min(Math.floor(loaded / total * 100), 100) : null
+            };
+
+            if (config.progressStartedAt == null) {
+                config.progressStartedAt = Date.now();
+            }
+
+            // Progress is reported outside of Angular, so invoke the callback in a digest cycle.
+            if (config.progress) {
+                this.$rootScope.$evalAsync(() => {
+                    config.progress(progress);
+                });
+            }
+
+            if (!progress.lengthComputable) {
+                return;
+            }
+
+            // The spinner is left just short of the end, since it is finished by handleResponseEnd.
+            if (config.showSpinner && this.spinnerRequestsInProgress === 1) {
+                NProgress.set(Math.min(loaded / total, 0.99));
+            }
+
+            if (config.blocking && this.blockingRequestsInProgress === 1) {
+                this.showProgressIndicator(config, progress);
+            }
+        }
+
+        /**
+         * Used to replace the blocking progress indicator of the given request with one that
+         * shows its progress.
+         * 
+         * The plugin's determinate indicators fill up over a given duration rather than showing
+         * a given value, so the indicator is shown again with the estimated time remaining (and
+         * the percentage in its label) every few percent.
+         * 
+         * @param config The configuration of the request.
+         * @param progress The progress of the request.
+         */
+        private showProgressIndicator(config: Interfaces.RequestConfig, progress: Interfaces.TransferProgress): void {
+            var elapsed: number,
+                remaining: number,
+                label: string;
+
+            if (config.progressPercent != null && progress.percent - config.progressPercent < 5) {
+                return;
+            }
+
+            config.progressPercent = progress.percent;
+
+            elapsed = Date.now() - config.progressStartedAt;
+            remaining = progress.loaded > 0 ? elapsed * (progress.total - progress.loaded) / progress.loaded : 0;
+
+            label = this.Utilities.format("{0} {1}%", config.blockingText || "Uploading...", progress.percent);
+
+            // The indicators hide themselves once their duration elapses, so they are shown for
+            // at least a second. The plugin expects the duration in microseconds.
+            remaining = Math.max(remaining, 1000) * 1000;
+
+            window.ProgressIndicator.hide();
+
+            if (config.progressBar) {
+                window.ProgressIndicator.showBarWithLabel(true, remaining, label);
+            }
+            else {
+                window.ProgressIndicator.showDeterminateWithLabel(true, remaining, label);
+            }
+        }
+
         /**
          * This method should be called when there is a fatal error during one of our interceptor
          * methods. It ensures that all of the progress bars and overlays are removed from the
@@ -336,16 +656,26 @@
          */
         private handleResponseEnd(config: Interfaces.RequestConfig) {
 
-            // Decrement the total number of HTTP requests that are in progress.
-            this.requestsInProgress -= 1;
+            // Each request must only be counted once, so ignore requests that were never started
+            // (eg another interceptor rejected them) or that have already ended (eg they were
+            // cancelled or timed out and then completed through another path).
+            if (!config.inProgress) {
+                return;
+            }
+
+            config.inProgress = false;
+
+            // Decrement the total number of HTTP requests that are in progress. The counters are
+            // reset by handleFatalError, so they are kept from going below zero.
+            this.requestsInProgress = Math.max(this.requestsInProgress - 1, 0);
 
             // If this was a blocking request, also decrement the blocking counter.
             if (config.blocking) {
-                this.blockingRequestsInProgress -= 1;
+                this.blockingRequestsInProgress = Math.max(this.blockingRequestsInProgress - 1, 0);
             }
             // If this was a spinner request, also decrement the spinner counter.
             if (config.showSpinner) {
-                this.spinnerRequestsInProgress -= 1;
+                this.spinnerRequestsInProgress = Math.max(this.spinnerRequestsInProgress - 1, 0);
             }
 
             // If there are no more blocking requests in progress, then hide the blocker.
@@ -365,23 +695,641 @@
         }
 
         /**
-         * Used to create a header value for use with the basic Authorization HTTP header using
-         * the given user name and password value.
+         * Records a summary of the given HTTP response (method, URL, and status) in the
+         * Logger's breadcrumb buffer. Requests that suppress logging are ignored.
          * 
-         * http://en.wikipedia.org/wiki/Basic_access_authentication
+         * @param httpResponse The response to summarize.
+         */
+        private addHttpBreadcrumb(httpResponse: ng.IHttpPromiseCallbackArg<any>): void {
+            var config = <Interfaces.RequestConfig>httpResponse.config;
+
+            if (config.suppressLogging) {
+                return;
+            }
+
+            this.Logger.addBreadcrumb("http", this.Utilities.format("{0} {1} ({2})", config.method, config.url, httpResponse.status));
+        }
+
+        /**
+         * Stops the Logger timer that was started for the given request, if there is one.
          * 
-         * @param The user name to use.
-         * @param The password to use.
-         * @returns A value to use for the HTTP Authorization header.
+         * @param config The configuration of the request.
          */
-        private getAuthorizationHeader(userName: string, password: string): string {
-            var headerValue: string;
+        private stopTimer(config: Interfaces.RequestConfig): void {
+
+            if (config.timerId) {
+                this.Logger.stopTimer(config.timerId);
+                config.timerId = null;
+            }
+        }
+
+        /**
+         * Sets the timeout property of the given request to a promise which is resolved (which
+         * makes $http abort the request) when the request's timeout elapses or its cancellation
+         * token is cancelled. A promise is used instead of a number so we can tell whether the
+         * request was aborted because it timed out or because it was cancelled.
+         * 
+         * This is done for each attempt of the request (eg retries), since each attempt needs
+         * its own promise.
+         * 
+         * @param config The configuration of the request.
+         */
+        private startTimeout(config: Interfaces.RequestConfig): void {
+            var abort = this.$q.defer<void>(),
+                timeoutPromise: ng.IPromise<any>,
+                unregister: () => void;
+
+            if (config.timeoutInMilliseconds == null) {
+                config.timeoutInMilliseconds = typeof (config.timeout) === "number" ? config.timeout : HttpInterceptor.DEFAULT_TIMEOUT_IN_MILLISECONDS;
+            }
+
+            config.timedOut = false;
+
+            if (config.timeoutInMilliseconds > 0) {
+                timeoutPromise = this.$timeout(() => {
+                    config.timedOut = true;
+                    abort.resolve();
+                }, config.timeoutInMilliseconds);
+            }
+
+            if (config.cancellationToken) {
+                unregister = config.cancellationToken.register(() => {
+                    config.cancelled = true;
+                    abort.resolve();
+                });
+            }
+
+            config.timeout = abort.promise;
+
+            config.releaseTimeout = () => {
+                if (timeoutPromise) {
+                    this.$timeout.cancel(timeoutPromise);
+                }
+
+                if (unregister) {
+                    unregister();
+                }
+            };
+        }
+
+        /**
+         * Stops watching for the timeout and cancellation of the current attempt of the given
+         * request, if it is being watched.
+         * 
+         * @param config The configuration of the request.
+         */
+        private releaseTimeout(config: Interfaces.RequestConfig): void {
+
+            if (config.releaseTimeout) {
+                config.releaseTimeout();
+                config.releaseTimeout = null;
+            }
+        }
+
+        /**
+         * Completes a request that was aborted because its cancellation token was cancelled. The
+         * duration of the request is discarded rather than recorded.
+         * 
+         * @param config The configuration of the request.
+         */
+        private endCancelledRequest(config: Interfaces.RequestConfig): void {
+
+            if (config.timerId) {
+                this.Logger.cancelTimer(config.timerId);
+                config.timerId = null;
+            }
+
+            if (!config.suppressLogging) {
+                this.Logger.addBreadcrumb("http", this.Utilities.format("{0} {1} (cancelled)", config.method, config.url));
+            }
+
+            this.handleResponseEnd(config);
+        }
+
+        /**
+         * Used to reject the given request without sending it because its circuit is open. The
+         * rejection has the same shape as a failed response with a status of 0, and its data is
+         * a Models.CircuitOpenError.
+         * 
+         * @param config The configuration of the request.
+         * @returns A rejected promise.
+         */
+        private rejectOpenCircuit(config: Interfaces.RequestConfig): ng.IPromise<any> {
+            var httpResponse: ng.IHttpPromiseCallbackArg<any>;
+
+            config.circuitOpen = true;
+
+            if (!config.suppressLogging) {
+                this.Logger.addBreadcrumb("http", this.Utilities.format("{0} {1} (circuit open)", config.method, config.url));
+            }
+
+            httpResponse = {
+                data: this.CircuitBreaker.createError(config.circuitKey),
+                status: 0,
+                statusText: "Circuit Open",
+                config: config,
+                headers: (headerName?: string) => {
+                    return headerName ? null : <any>{};
+                }
+            };
+
+            return this.$q.reject(httpResponse);
+        }
+
+        /**
+         * Signs the given request via the RequestSigner and logs the signature if full HTTP
+         * logging is enabled. If the request can't be signed, it is rejected without being sent.
+         * 
+         * @param config The configuration of the request; its base URL must already have been applied.
+         * @param environment The environment that the request is sent to.
+         * @returns A promise of the configuration of the signed request.
+         */
+        private signRequest(config: Interfaces.RequestConfig, environment: Interfaces.ApiEnvironment): ng.IPromise<Interfaces.RequestConfig> {
+            config.signingFailed = false;
+
+            return this.RequestSigner.sign(config, environment).then((signature: Models.RequestSignature) => {
+                config.signature = signature;
+
+                if (this.Preferences.enableFullHttpLogging && !config.suppressLogging) {
+                    this.Logger.logHttpRequestSignature(config, signature);
+                }
+
+                return this.$q.when(config);
+            }, (error: Error) => {
+                return this.rejectUnsignedRequest(config, error);
+            });
+        }
 
-            // Concatenate the user name and password with a colon.
-            headerValue = this.Utilities.format("{0}:{1}", userName, password);
+        /**
+         * Used to reject the given request without sending it because it couldn't be signed. The
+         * rejection has the same shape as a failed response with a status of 0, and its data is
+         * the Error that describes why.
+         * 
+         * @param config The configuration of the request.
+         * @param error The reason that the request couldn't be signed.
+         * @returns A rejected promise.
+         */
+        private rejectUnsignedRequest(config: Interfaces.RequestConfig, error: Error): ng.IPromise<any> {
+            var httpResponse: ng.IHttpPromiseCallbackArg<any>;
+
+            config.signingFailed = true;
+
+            this.releaseTimeout(config);
+
+            if (config.timerId) {
+                this.Logger.cancelTimer(config.timerId);
+                config.timerId = null;
+            }
+
+            if (config.circuitProbe) {
+                this.CircuitBreaker.releaseProbe(config.circuitKey);
+            }
+
+            if (!config.suppressLogging) {
+                this.Logger.warn(this.Utilities.format("{0} {1} was not sent because it could not be signed.", config.method, config.url), error);
+                this.Logger.addBreadcrumb("http", this.Utilities.format("{0} {1} (not signed)", config.method, config.url));
+            }
+
+            httpResponse = {
+                data: error,
+                status: 0,
+                statusText: "Not Signed",
+                config: config,
+                headers: (headerName?: string) => {
+                    return headerName ? null : <any>{};
+                }
+            };
+
+            return this.$q.reject(httpResponse);
+        }
+
+        /**
+         * Sends the given request again after its signature was rejected because the device's
+         * clock was out of sync with the server's. The request is signed again (with the server's
+         * time) as it goes back through the interceptor. The request remains in progress, so the
+         * spinner and blocking UI are left as-is until it finishes.
+         * 
+         * @param config The configuration of the request whose signature was rejected.
+         * @returns A promise for the response of the re-sent request.
+         */
+        private resendWithNewSignature(config: Interfaces.RequestConfig): ng.IPromise<any> {
+            var $http: ng.IHttpService;
+
+            config.signatureRetried = true;
+
+            // The $http service can't be injected directly, since it depends on this interceptor.
+            $http = this.$injector.get("$http");
+
+            return $http(config);
+        }
+
+        /**
+         * Used to record the outcome of the given response with the CircuitBreaker. Failures
+         * aren't counted while the device is offline, since the service itself may be fine.
+         * 
+         * @param httpResponse The response of a request.
+         */
+        private updateCircuit(httpResponse: ng.IHttpPromiseCallbackArg<any>): void {
+            var config = <Interfaces.RequestConfig>httpResponse.config;
+
+            if (!config.circuitKey || !this.CircuitBreaker.isEnabled()) {
+                return;
+            }
+
+            // Responses served from the cache say nothing about the state of the service.
+            if (config.servedFromCache) {
+
+                if (config.circuitProbe) {
+                    this.CircuitBreaker.releaseProbe(config.circuitKey);
+                }
+
+                return;
+            }
+
+            if (!this.CircuitBreaker.isFailure(httpResponse.status)) {
+                this.CircuitBreaker.recordSuccess(config.circuitKey);
+            }
+            else if (this.RequestQueue.isOffline()) {
+                this.CircuitBreaker.releaseProbe(config.circuitKey);
+            }
+            else {
+                this.CircuitBreaker.recordFailure(config.circuitKey);
+            }
+        }
+
+        /**
+         * For certain response codes, we'll broadcast an event to the rest of the app so that
+         * it can handle the event in whatever way is appropriate.
+         * 
+         * @param httpResponse The failed response.
+         */
+        private broadcastStatus(httpResponse: ng.IHttpPromiseCallbackArg<any>): void {
+
+            if (httpResponse.status === 401) {
+                this.$rootScope.$broadcast("http.unauthorized");
+            }
+            else if (httpResponse.status === 403) {
+                this.$rootScope.$broadcast("http.forbidden");
+            }
+            else if (httpResponse.status === 404) {
+                this.$rootScope.$broadcast("http.notFound");
+            }
+        }
+
+        /**
+         * Used to determine if the token should be refreshed because the server rejected the
+         * request for the given response. A token is only refreshed if credentials were sent,
+         * and each request is only replayed once.
+         * 
+         * @param httpResponse The failed response.
+         * @returns True if the token should be refreshed and the request replayed.
+         */
+        private shouldRefreshToken(httpResponse: ng.IHttpPromiseCallbackArg<any>): boolean {
+            var config = <Interfaces.RequestConfig>httpResponse.config;
+
+            if (!this.tokenRefreshConfig || !this.tokenRefreshConfig.enabled) {
+                return false;
+            }
+
+            if (config.skipTokenRefresh || config.tokenRefreshAttempted) {
+                return false;
+            }
+
+            if (!config.authenticated) {
+                return false;
+            }
+
+            return _.contains(this.tokenRefreshConfig.statuses, httpResponse.status);
+        }
+
+        /**
+         * Refreshes the token and then replays the request for the given response using the
+         * new token. If a refresh is already in progress (eg for a concurrent request) then
+         * the replay waits for it instead of starting another.
+         * 
+         * If the refresh fails, the original rejection is broadcast as usual.
+         * 
+         * @param httpResponse The failed response.
+         * @returns A promise for the response of the replayed request.
+         */
+        private refreshTokenAndReplay(httpResponse: ng.IHttpPromiseCallbackArg<any>): ng.IPromise<any> {
+            var config = <Interfaces.RequestConfig>httpResponse.config;
+
+            config.tokenRefreshAttempted = true;
+
+            return this.startTokenRefresh().then(() => {
+                var $http: ng.IHttpService;
+
+                config.authenticated = this.Authenticator.applyCredentials(config.headers);
+
+                // The $http service can't be injected directly, since it depends on this interceptor.
+                $http = this.$injector.get("$http");
+
+                return $http(config);
+            }, () => {
+                this.handleResponseEnd(config);
+                this.broadcastStatus(httpResponse);
+
+                return this.$q.reject(httpResponse);
+            });
+        }
+
+        /**
+         * Starts refreshing the credentials via the Authenticator, unless a refresh is already
+         * in progress.
+         * 
+         * @returns The promise for the refresh that is in progress.
+         */
+        private startTokenRefresh(): ng.IPromise<void> {
+
+            if (!this.tokenRefresh) {
+                this.tokenRefresh = this.Authenticator.refresh();
+
+                // This is registered first, so it is cleared before any of the waiting requests continue.
+                this.tokenRefresh.then(() => {
+                    this.tokenRefresh = null;
+                }, () => {
+                    this.tokenRefresh = null;
+                });
+            }
+
+            return this.tokenRefresh;
+        }
+
+        /**
+         * Continues a request that was held while the token was being refreshed.
+         * 
+         * @param config The configuration of the request.
+         * @returns The configuration of the request once it is ready to be sent.
+         */
+        private continueAfterTokenRefresh(config: Interfaces.RequestConfig): any {
+
+            // The request has already waited for a refresh, so it shouldn't trigger another one
+            // (eg if the refresh failed and the token is still expired).
+            config.skipTokenRefresh = true;
+
+            return this.request(config);
+        }
+
+        /**
+         * Used to get the cache mode for the given request with the default applied.
+         * 
+         * @param config The configuration of the request.
+         * @returns The cache mode.
+         */
+        private getCacheMode(config: Interfaces.RequestConfig): Models.CacheMode {
+            return config.cacheMode == null ? Models.CacheMode.Default : config.cacheMode;
+        }
+
+        /**
+         * Used to determine if the HttpCache should be used for the given API request. Only GET
+         * requests are cached, and never those with the NetworkOnly cache mode.
+         * 
+         * @param config The configuration of the request.
+         * @returns True if the cache should be used.
+         */
+        private isCacheable(config: Interfaces.RequestConfig): boolean {
+            return this.HttpCache.isEnabled()
+                && config.method.toUpperCase() === "GET"
+                && this.getCacheMode(config) !== Models.CacheMode.NetworkOnly;
+        }
+
+        /**
+         * Looks up the cached response for the given request. If it can be used as-is (based on
+         * the cache mode and whether it is fresh) $http is told to serve it instead of making the
+         * request. Otherwise the validators of the cached response are added to the request so
+         * the server can respond with a 304 if it hasn't changed.
+         * 
+         * @param config The configuration of the request; the URL must already include the base URL.
+         */
+        private applyCache(config: Interfaces.RequestConfig): void {
+            var mode = this.getCacheMode(config),
+                entry: Models.CacheEntry,
+                isFresh: boolean;
+
+            config.cacheKey = this.HttpCache.getKey(config);
+            entry = this.HttpCache.get(config.cacheKey);
+
+            if (!entry) {
+                return;
+            }
+
+            isFresh = this.HttpCache.isFresh(entry);
+
+            if (isFresh || mode === Models.CacheMode.CacheFirst || mode === Models.CacheMode.StaleWhileRevalidate) {
+                config.servedFromCache = true;
+                config.cache = this.HttpCache.createCacheObject(entry);
+
+                if (!isFresh && mode === Models.CacheMode.StaleWhileRevalidate) {
+                    this.revalidateInBackground(config);
+                }
+
+                return;
+            }
+
+            if (entry.etag) {
+                config.headers["If-None-Match"] = entry.etag;
+            }
+
+            if (entry.lastModified) {
+                config.headers["If-Modified-Since"] = entry.lastModified;
+            }
+        }
+
+        /**
+         * Makes the given request again in the background so that its stale cached response is
+         * revalidated. If the server responds with new data, the httpCache.updated event is
+         * broadcast with the request's URL so views can reload it.
+         * 
+         * @param config The configuration of the request whose cached response was served.
+         */
+        private revalidateInBackground(config: Interfaces.RequestConfig): void {
+            var httpConfig: Interfaces.RequestConfig,
+                $http: ng.IHttpService;
+
+            httpConfig = {
+                method: "GET",
+                url: config.originalUrl,
+                params: config.params,
+                blocking: false,
+                showSpinner: false,
+                cacheMode: Models.CacheMode.Default,
+
+                // The original request is still in progress, so don't let this one join it.
+                skipDeduplication: true
+            };
+
+            // The $http service can't be injected directly, since it depends on this interceptor.
+            $http = this.$injector.get("$http");
+
+            $http(httpConfig).then((httpResponse: ng.IHttpPromiseCallbackArg<any>) => {
+                if (!(<Interfaces.RequestConfig>httpResponse.config).servedFromCache) {
+                    this.$rootScope.$broadcast("httpCache.updated", config.originalUrl);
+                }
+            });
+        }
+
+        /**
+         * Completes the given request using the given cached response instead of the response
+         * from the server (eg after a 304 or when the server couldn't be reached).
+         * 
+         * @param entry The cached response.
+         * @param config The configuration of the request.
+         * @returns The response built from the cached response.
+         */
+        private respondFromCache(entry: Models.CacheEntry, config: Interfaces.RequestConfig): ng.IHttpPromiseCallbackArg<any> {
+
+            config.servedFromCache = true;
+
+            this.stopTimer(config);
+            this.handleResponseEnd(config);
+
+            return this.HttpCache.createResponse(entry, config);
+        }
+
+        /**
+         * Stores the given successful response in the HttpCache if the request used the cache.
+         * A successful request that modifies an API resource removes the cached responses for
+         * that resource instead.
+         * 
+         * @param httpResponse The successful response.
+         */
+        private updateCache(httpResponse: ng.IHttpPromiseCallbackArg<any>): void {
+            var config = <Interfaces.RequestConfig>httpResponse.config;
+
+            if (config.servedFromCache || !config.originalUrl || !this.HttpCache.isEnabled()) {
+                return;
+            }
+
+            if (config.cacheKey) {
+                this.HttpCache.put(config.cacheKey, httpResponse);
+            }
+            else if (!_.contains(["GET", "HEAD", "OPTIONS"], config.method.toUpperCase())) {
+                this.HttpCache.invalidate(config.url);
+            }
+        }
+
+        /**
+         * Used to determine if the request for the given failed response should be added to the
+         * RequestQueue. Only queueable API requests that mutate data are queued, and only if they
+         * failed without reaching the server. Requests that timed out are not queued, since the
+         * server may have processed them. Requests sent by the queue itself are never queued
+         * again, since the queue keeps track of them.
+         * 
+         * @param httpResponse The failed response.
+         * @returns True if the request should be queued.
+         */
+        private shouldQueue(httpResponse: ng.IHttpPromiseCallbackArg<any>): boolean {
+            var config = <Interfaces.RequestConfig>httpResponse.config;
+
+            if (!config.queueable || config.queuedRequestId || !config.originalUrl || config.timedOut) {
+                return false;
+            }
+
+            if (!_.contains(HttpInterceptor.QUEUEABLE_METHODS, config.method.toUpperCase())) {
+                return false;
+            }
+
+            return httpResponse.status === 0;
+        }
+
+        /**
+         * Used to get the retry policy for the given request with the defaults applied.
+         * 
+         * @param config The configuration of the request.
+         * @returns The retry policy, or null if the request should not be retried.
+         */
+        private getRetryPolicy(config: Interfaces.RequestConfig): Interfaces.RetryPolicy {
+
+            if (!config.retry) {
+                return null;
+            }
+
+            return <Interfaces.RetryPolicy>_.defaults({}, config.retry, HttpInterceptor.DEFAULT_RETRY_POLICY);
+        }
+
+        /**
+         * Used to determine if the request for the given failed response should be retried
+         * based on its retry policy, method, status code, and the number of attempts so far.
+         * 
+         * @param httpResponse The failed response.
+         * @returns True if the request should be re-issued.
+         */
+        private shouldRetry(httpResponse: ng.IHttpPromiseCallbackArg<any>): boolean {
+            var config = <Interfaces.RequestConfig>httpResponse.config,
+                policy = this.getRetryPolicy(config);
+
+            if (!policy) {
+                return false;
+            }
+
+            if (!policy.retryNonIdempotentMethods && !_.contains(HttpInterceptor.IDEMPOTENT_METHODS, config.method.toUpperCase())) {
+                return false;
+            }
+
+            if ((config.retryAttempt || 0) + 1 >= policy.maxAttempts) {
+                return false;
+            }
+
+            return _.contains(policy.retryableStatuses, httpResponse.status);
+        }
+
+        /**
+         * Re-issues the given request after a delay determined by its retry policy using an
+         * exponential backoff with jitter.
+         * 
+         * @param config The configuration of the request that failed.
+         * @returns A promise for the response of the re-issued request.
+         */
+        private retry(config: Interfaces.RequestConfig): ng.IPromise<any> {
+            var policy = this.getRetryPolicy(config),
+                delay: number;
+
+            config.retryAttempt = (config.retryAttempt || 0) + 1;
+
+            delay = policy.delayInMilliseconds * Math.pow(2, config.retryAttempt - 1);
+            delay = Math.min(delay, policy.maxDelayInMilliseconds);
+            delay += delay * policy.jitter * (Math.random() * 2 - 1);
+
+            console.warn(this.Utilities.format("HttpInterceptor.retry: Retrying {0} {1} in {2}ms (retry {3} of {4}).", config.method, config.url, Math.round(delay), config.retryAttempt, policy.maxAttempts - 1));
+
+            return this.$timeout(() => {
+                var $http: ng.IHttpService;
+
+                // The $http service can't be injected directly, since it depends on this interceptor.
+                $http = this.$injector.get("$http");
+
+                return $http(config);
+            }, Math.max(delay, 0));
+        }
+
+        /**
+         * Used to get the name of the endpoint for the given request, which is used to group
+         * the timings of requests. This is the method and the URL without its query string;
+         * path segments which are numbers or GUIDs are replaced with placeholders so that
+         * requests for different resources of the same type are grouped together.
+         * 
+         * @param config The configuration of the request.
+         * @returns The name of the endpoint (eg GET ~/categories/:id).
+         */
+        private getEndpointName(config: Interfaces.RequestConfig): string {
+            var path: string;
+
+            path = config.url.split(/[?#]/)[0];
+
+            path = _.map(path.split("/"), (segment: string) => {
+                if (/^\d+$/.test(segment)) {
+                    return ":id";
+                }
+                else if (/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(segment)) {
+                    return ":guid";
+                }
+                else {
+                    return segment;
+                }
+            }).join("/");
 
-            // Base64 encode the user name and password and prepend "Basic".
-            return "Basic " + btoa(headerValue);
+            return this.Utilities.format("{0} {1}", config.method, path);
         }
 
         //#endregion
@@ -0,0 +1,240 @@
+﻿module JustinCredible.SampleApp.Services {
+
+    /**
+     * Provides a way to upload log entries from the Logger to the server.
+     * 
+     * Entries are uploaded in batches to the ~/logs endpoint. If an upload fails or the
+     * device is offline, the entries remain in the Logger and will be retried later. Once
+     * a batch has been accepted by the server, its entries are marked as shipped so they
+     * are not sent again.
+     */
+    export class LogShipper {
+
+        public static $inject = ["$rootScope", "$q", "$timeout", "ApiClient", "Logger", "loggerConfig"];
+
+        private $rootScope: ng.IRootScopeService;
+        private $q: ng.IQService;
+        private $timeout: ng.ITimeoutService;
+        private ApiClient: ApiClient;
+        private Logger: Logger;
+        private config: Interfaces.LogShippingConfig;
+
+        private isStarted: boolean;
+        private isShipping: boolean;
+        private consecutiveFailures: number;
+        private nextShipment: ng.IPromise<any>;
+
+        constructor($rootScope: ng.IRootScopeService, $q: ng.IQService, $timeout: ng.ITimeoutService, ApiClient: ApiClient, Logger: Logger, loggerConfig: Interfaces.LoggerConfig) {
+            this.$rootScope = $rootScope;
+            this.$q = $q;
+            this.$timeout = $timeout;
+            this.ApiClient = ApiClient;
+            this.Logger = Logger;
+            this.config = loggerConfig.shipping;
+
+            this.isStarted = false;
+            this.isShipping = false;
+            this.consecutiveFailures = 0;
+        }
+
+        //#region Public API
+
+        /**
+         * Used to begin periodically uploading log entries to the server. This will do nothing
+         * if shipping is not enabled via the logger configuration.
+         */
+        public start(): void {
+
+            if (!this.config || !this.config.enabled || this.isStarted) {
+                return;
+            }
+
+            this.isStarted = true;
+
+            // Attempt to ship any pending entries as soon as the device comes back online.
+            document.addEventListener("online", _.bind(this.document_online, this), false);
+
+            this.shipAndReschedule();
+        }
+
+        /**
+         * Used to upload all of the log entries that have not yet been shipped to the server.
+         * 
+         * Only entries with a level included in the shipping configuration are uploaded.
+         * 
+         * @returns A promise that resolves with the number of entries that were uploaded.
+         */
+        public ship(): ng.IPromise<number> {
+            var q = this.$q.defer<number>();
+
+            // Ensure we don't upload the same batch twice by running concurrently.
+            if (this.isShipping) {
+                q.resolve(0);
+                return q.promise;
+            }
+
+            // There's no point in trying if we know that we can't reach the server.
+            if (this.isOffline()) {
+                q.reject(new Error("Log entries cannot be shipped because the device is offline."));
+                return q.promise;
+            }
+
+            this.isShipping = true;
+
+            this.Logger.getUnshippedLogs().then((logEntries: Models.LogEntry[]) => {
+
+                // Only upload the levels we are interested in, oldest first.
+                logEntries = _.filter(logEntries, (logEntry: Models.LogEntry) => {
+                    return _.contains(this.config.levels, logEntry.level);
+                });
+
+                logEntries = _.sortBy(logEntries, (logEntry: Models.LogEntry) => {
+                    return moment(logEntry.timestamp).valueOf();
+                });
+
+                this.shipBatches(logEntries, 0).then((shippedCount: number) => {
+                    this.isShipping = false;
+                    q.resolve(shippedCount);
+                }, (error: any) => {
+                    this.isShipping = false;
+                    q.reject(error);
+                });
+
+            }, (error: any) => {
+                this.isShipping = false;
+                q.reject(error);
+            });
+
+            return q.promise;
+        }
+
+        //#endregion
+
+        //#region Event Handlers
+
+        private document_online(): void {
+
+            // This event occurs outside of Angular, so the upload needs a digest cycle to go out.
+            this.$rootScope.$apply(() => {
+                this.consecutiveFailures = 0;
+                this.shipAndReschedule();
+            });
+        }
+
+        //#endregion
+
+        //#region Private Helper Methods
+
+        /**
+         * Uploads the given log entries in batches, one batch at a time, marking each batch
+         * as shipped once the server has accepted it.
+         * 
+         * @param logEntries The log entries to upload.
+         * @param shippedCount The number of entries that have been uploaded so far.
+         * @returns A promise that resolves with the total number of entries that were uploaded.
+         */
+        private shipBatches(logEntries: Models.LogEntry[], shippedCount: number): ng.IPromise<number> {
+            var q = this.$q.defer<number>(),
+                batch: Models.LogEntry[];
+
+            if (logEntries.length === 0) {
+                q.resolve(shippedCount);
+                return q.promise;
+            }
+
+            batch = _.first(logEntries, this.config.maxBatchSize || logEntries.length);
+
+            this.ApiClient.send(ApiEndpoints.logs.upload, {}, { entries: batch }).then(() => {
+
+                this.Logger.markLogsShipped(_.pluck(batch, "id")).then(() => {
+                    this.shipBatches(_.rest(logEntries, batch.length), shippedCount + batch.length).then((count: number) => {
+                        q.resolve(count);
+                    }, (error: any) => {
+                        q.reject(error);
+                    });
+                }, (error: any) => {
+                    q.reject(error);
+                });
+
+            }, (error: any) => {
+                q.reject(error);
+            });
+
+            return q.promise;
+        }
+
+        /**
+         * Ships any pending log entries and then schedules the next attempt. Failures cause
+         * the next attempt to be delayed using an exponential backoff.
+         * 
+         * If a shipment is already in progress, nothing is done; it will schedule the next
+         * attempt once it has finished.
+         */
+        private shipAndReschedule(): void {
+
+            if (this.isShipping) {
+                return;
+            }
+
+            // Try again immediately instead of waiting for the pending attempt.
+            this.cancelNextShipment();
+
+            this.ship().then(() => {
+                this.consecutiveFailures = 0;
+                this.scheduleNextShipment();
+            }, () => {
+                this.consecutiveFailures += 1;
+                this.scheduleNextShipment();
+            });
+        }
+
+        /**
+         * Schedules the next shipment attempt based on the configured interval or, if the
+         * previous attempt failed, the current retry delay.
+         */
+        private scheduleNextShipment(): void {
+            var delayInSeconds: number;
+
+            if (this.consecutiveFailures === 0) {
+                delayInSeconds = this.config.intervalInSeconds;
+            }
+            else {
+                delayInSeconds = this.config.retryDelayInSeconds * Math.pow(2, this.consecutiveFailures - 1);
+                delayInSeconds = Math.min(delayInSeconds, this.config.maxRetryDelayInSeconds);
+            }
+
+            // Only one attempt may be pending at a time.
+            this.cancelNextShipment();
+
+            // Don't trigger a digest cycle for each attempt.
+            this.nextShipment = this.$timeout(() => {
+                this.nextShipment = null;
+                this.shipAndReschedule();
+            }, delayInSeconds * 1000, false);
+        }
+
+        /**
+         * Cancels the pending shipment attempt, if there is one.
+         */
+        private cancelNextShipment(): void {
+
+            if (this.nextShipment) {
+                this.$timeout.cancel(this.nextShipment);
+                this.nextShipment = null;
+            }
+        }
+
+        /**
+         * Used to determine if the device is known to not have a network connection.
+         * 
+         * @returns True if the Network Information plugin reports that there is no connection.
+         */
+        private isOffline(): boolean {
+            return !!navigator.connection
+                && typeof(Connection) !== "undefined"
+                && navigator.connection.type === Connection.NONE;
+        }
+
+        //#endregion
+    }
+}
\ No newline at end of file
@@ -1,39 +1,659 @@
 ﻿module JustinCredible.SampleApp.Services {
 
     /**
-     * Provides a common set of helper/utility methods for logging errors.
+     * Describes an entry in the log index, which maps a log entry's ID to the segment file
+     * it was written to. This allows a single entry to be located without reading every
+     * segment and also allows the retention policy to be enforced without parsing entries.
+     */
+    interface ILogIndexEntry {
+        id: string;
+        segment: string;
+        timestamp: Date;
+        size: number;
+
+        /**
+         * True if the log entry has been uploaded by the LogShipper.
+         */
+        shipped?: boolean;
+    }
+
+    /**
+     * Describes a timer that was started via Logger.startTimer().
+     */
+    interface ITimer {
+        category: string;
+        name: string;
+        timestamp: Date;
+        start: number;
+    }
+
+    /**
+     * Provides a common set of helper/utility methods for logging.
+     * 
+     * Entries are written with a severity level (see Models.LogLevel); entries with a level
+     * lower than the configured minimum level are discarded.
+     * 
+     * When logging to local storage, entries are appended to rolling segment files (one per
+     * day) which contain newline delimited JSON (one log entry per line). An index of the
+     * entries is kept in a separate file.
+     * 
+     * The number of entries that are kept is limited by the configured retention policy.
+     * The policy is enforced each time an entry is written and when the application starts.
+     * 
+     * Sensitive values (eg authorization headers) are removed from entries by the Redactor
+     * before they are stored.
+     * 
+     * A rolling buffer of breadcrumbs (route changes, HTTP requests, etc) is kept in memory;
+     * a snapshot of the buffer is attached to each error (or fatal) entry.
+     * 
+     * The duration of operations (HTTP requests, view transitions, etc) can be measured
+     * using timers or marks; the resulting timing entries are kept in a separate rolling
+     * in-memory buffer and are not written to the logs.
      */
     export class Logger {
 
-        public static $inject = ["$q", "Utilities", "FileUtilities"];
+        public static $inject = ["$q", "Utilities", "FileUtilities", "Redactor", "loggerConfig"];
+
+        /**
+         * The directory that contains the segment files and index.
+         */
+        private static LOG_DIRECTORY = "/logs";
+
+        /**
+         * The path to the file which contains the index of log entries.
+         */
+        private static INDEX_PATH = "/logs/index.json";
+
+        /**
+         * The file extension used for segment files.
+         */
+        private static SEGMENT_EXTENSION = ".ndjson";
+
+        /**
+         * The file extension used by the log files written by previous versions, which
+         * contained a single log entry per file.
+         */
+        private static LEGACY_EXTENSION = ".log";
 
         private $q: ng.IQService;
         private Utilities: Utilities;
         private FileUtilities: FileUtilities;
+        private Redactor: Redactor;
 
         private logToLocalStorage: boolean;
+        private minimumLevel: Models.LogLevel;
+        private retentionPolicy: Interfaces.LogRetentionPolicy;
         private logs: Models.LogEntry[];
 
-        constructor($q: ng.IQService, Utilities: Utilities, FileUtilities: FileUtilities) {
+        /**
+         * The index of log entries that are on disk, keyed by log entry ID. This will be
+         * null until it has been loaded via loadIndex().
+         */
+        private index: { [id: string]: ILogIndexEntry };
+
+        /**
+         * The promise for the last file I/O operation that was queued via enqueue().
+         */
+        private ioQueue: ng.IPromise<any>;
+
+        /**
+         * The IDs of the in-memory log entries that have been uploaded by the LogShipper.
+         * When logging to local storage, this is tracked via the index instead.
+         */
+        private shippedLogIds: { [id: string]: boolean };
+
+        /**
+         * The most recent breadcrumbs, oldest first; limited to maxBreadcrumbs items.
+         */
+        private breadcrumbs: Models.Breadcrumb[];
+        private maxBreadcrumbs: number;
+
+        /**
+         * The most recent timing entries, oldest first; limited to maxTimings items.
+         */
+        private timings: Models.TimingEntry[];
+        private maxTimings: number;
+
+        /**
+         * The timers that have been started but not yet stopped, keyed by timer ID.
+         */
+        private timers: { [id: string]: ITimer };
+
+        /**
+         * The high resolution timestamps of the marks that have been recorded, keyed by mark name.
+         */
+        private marks: { [name: string]: number };
+
+        /**
+         * A unique ID for this launch of the application; see getSessionId().
+         */
+        private sessionId: string;
+
+        constructor($q: ng.IQService, Utilities: Utilities, FileUtilities: FileUtilities, Redactor: Redactor, loggerConfig: Interfaces.LoggerConfig) {
             this.$q = $q;
             this.Utilities = Utilities;
             this.FileUtilities = FileUtilities;
+            this.Redactor = Redactor;
+
+            this.minimumLevel = loggerConfig.minimumLevel;
+            this.retentionPolicy = loggerConfig.retentionPolicy;
+            this.maxBreadcrumbs = loggerConfig.maxBreadcrumbs;
+            this.maxTimings = loggerConfig.maxTimings;
 
             // If we aren't in the Ripple emulator, then we'll default to using local storage
             // to store the log files.
             this.logToLocalStorage = !Utilities.isRipple;
 
             this.logs = [];
+            this.shippedLogIds = {};
+            this.breadcrumbs = [];
+            this.timings = [];
+            this.timers = {};
+            this.marks = {};
+            this.ioQueue = $q.when(null);
+
+            this.sessionId = Utilities.generateGuid();
+        }
+
+        //#region Storage
+
+        /**
+         * Used to run file I/O operations one at a time, in the order they were requested.
+         * Appending to a segment file is not an atomic operation, so concurrent writes to
+         * the same segment (or the index) could otherwise clobber each other.
+         * 
+         * @param operation A function which starts the operation and returns its promise.
+         * @returns A promise which will be resolved or rejected with the operation's result.
+         */
+        private enqueue<T>(operation: () => ng.IPromise<T>): ng.IPromise<T> {
+            var q = this.$q.defer<T>();
+
+            // Note that the queue's promise is always resolved, so a failed operation
+            // won't prevent the operations behind it from executing. This includes
+            // operations that throw (eg because the file plugin isn't available).
+            this.ioQueue = this.ioQueue.then(() => {
+                var promise: ng.IPromise<T>;
+
+                try {
+                    promise = operation();
+                } catch (exception) {
+                    q.reject(exception);
+                    return;
+                }
+
+                return promise.then((result: T) => {
+                    q.resolve(result);
+                }, (error: any) => {
+                    q.reject(error);
+                });
+            });
+
+            return q.promise;
         }
 
+        /**
+         * Used to get the path to the segment file that the given log entry belongs in.
+         */
+        private getSegmentPath(logEntry: Models.LogEntry): string {
+            return this.Utilities.format("{0}/{1}{2}", Logger.LOG_DIRECTORY, moment(logEntry.timestamp).format("YYYY-MM-DD"), Logger.SEGMENT_EXTENSION);
+        }
+
+        /**
+         * Used to parse the contents of a segment file into log entries.
+         * 
+         * Lines that can't be parsed (eg a partial write) are skipped.
+         * 
+         * @param text The contents of the segment file.
+         * @returns The log entries in the segment.
+         */
+        private parseSegment(text: string): Models.LogEntry[] {
+            var logEntries: Models.LogEntry[] = [];
+
+            if (!text) {
+                return logEntries;
+            }
+
+            text.split("\n").forEach((line: string) => {
+
+                if (!line) {
+                    return;
+                }
+
+                try {
+                    logEntries.push(<Models.LogEntry>JSON.parse(line));
+                } catch (exception) {
+                    console.warn("Skipping a log segment line that could not be parsed.", line, exception);
+                }
+            });
+
+            return logEntries;
+        }
+
+        /**
+         * Used to read in all of the log entries from the given segment file.
+         */
+        private readSegment(segment: string): ng.IPromise<Models.LogEntry[]> {
+            var q = this.$q.defer<Models.LogEntry[]>();
+
+            this.FileUtilities.readTextFile(segment).then((text: string) => {
+                q.resolve(this.parseSegment(text));
+            }, q.reject);
+
+            return q.promise;
+        }
+
+        /**
+         * Used to persist the in-memory index to disk.
+         */
+        private saveIndex(): ng.IPromise<void> {
+            return this.FileUtilities.writeTextFile(Logger.INDEX_PATH, JSON.stringify(this.index), false);
+        }
+
+        /**
+         * Used to add an entry to the index for the given log entry.
+         * 
+         * @param logEntry The log entry to add.
+         * @param segment The path to the segment that the log entry was written to.
+         * @param size The size of the log entry's line in the segment, in bytes.
+         */
+        private addToIndex(logEntry: Models.LogEntry, segment: string, size: number): void {
+            this.index[logEntry.id] = {
+                id: logEntry.id,
+                segment: segment,
+                timestamp: logEntry.timestamp,
+                size: size
+            };
+        }
+
+        /**
+         * Used to populate the index by reading all of the segment files. This is used if
+         * the index file is missing or could not be parsed.
+         */
+        private rebuildIndex(): ng.IPromise<void> {
+            var q = this.$q.defer<void>(),
+                promises: ng.IPromise<Models.LogEntry[]>[] = [];
+
+            this.index = {};
+
+            this.FileUtilities.getFiles(Logger.LOG_DIRECTORY).then((entries: FileEntry[]) => {
+
+                // Filter it down to just segment files.
+                entries = _.filter(entries, (entry: FileEntry) => {
+                    return this.Utilities.endsWith(entry.name, Logger.SEGMENT_EXTENSION);
+                });
+
+                entries.forEach((entry: FileEntry) => {
+                    var promise: ng.IPromise<Models.LogEntry[]>;
+
+                    promise = this.readSegment(entry.fullPath);
+
+                    promise.then((logEntries: Models.LogEntry[]) => {
+                        logEntries.forEach((logEntry: Models.LogEntry) => {
+                            this.addToIndex(logEntry, entry.fullPath, JSON.stringify(logEntry).length + 1);
+                        });
+                    });
+
+                    promises.push(promise);
+                });
+
+                // Once all of the I/O operations have completed, then we can finish.
+                this.$q.all(promises).then(() => { q.resolve(); }, q.reject);
+
+            }, q.reject);
+
+            return q.promise;
+        }
+
+        /**
+         * Used to move the log entries from the individual files written by previous versions
+         * into the segment files. The legacy files are deleted once they have been migrated,
+         * so this will only perform work the first time it is run.
+         */
+        private migrateLegacyLogFiles(): ng.IPromise<void> {
+            var q = this.$q.defer<void>();
+
+            this.FileUtilities.getFiles(Logger.LOG_DIRECTORY).then((entries: FileEntry[]) => {
+                var promises: ng.IPromise<string>[] = [],
+                    logEntries: Models.LogEntry[] = [];
+
+                // Filter it down to just the legacy files.
+                entries = _.filter(entries, (entry: FileEntry) => {
+                    return this.Utilities.endsWith(entry.name, Logger.LEGACY_EXTENSION);
+                });
+
+                if (entries.length === 0) {
+                    q.resolve();
+                    return;
+                }
+
+                // Read in the contents of each file (which will be JSON).
+                entries.forEach((entry: FileEntry) => {
+                    var promise: ng.IPromise<string>;
+
+                    promise = this.FileUtilities.readTextFile(entry.fullPath);
+
+                    promise.then((text: string) => {
+                        try {
+                            logEntries.push(<Models.LogEntry>JSON.parse(text));
+                        } catch (exception) {
+                            console.warn("Skipping a legacy log file that could not be parsed.", entry.fullPath, exception);
+                        }
+                    });
+
+                    promises.push(promise);
+                });
+
+                this.$q.all(promises).then(() => {
+                    var segments: { [segment: string]: string } = {},
+                        writePromises: ng.IPromise<void>[] = [];
+
+                    // Build up the contents of each of the segments, oldest entry first.
+                    _.sortBy(logEntries, (logEntry: Models.LogEntry) => {
+                        return moment(logEntry.timestamp).valueOf();
+                    }).forEach((logEntry: Models.LogEntry) => {
+                        var segment = this.getSegmentPath(logEntry),
+                            line = JSON.stringify(logEntry) + "\n";
+
+                        segments[segment] = (segments[segment] || "") + line;
+                        this.addToIndex(logEntry, segment, line.length);
+                    });
+
+                    _.keys(segments).forEach((segment: string) => {
+                        writePromises.push(this.FileUtilities.writeTextFile(segment, segments[segment], true));
+                    });
+
+                    // Only remove the legacy files once the segments have been written.
+                    this.$q.all(writePromises).then(() => {
+
+                        this.FileUtilities.deleteFilesUsingEntries(entries).then(() => {
+                            q.resolve();
+                        }, q.reject);
+
+                    }, q.reject);
+
+                }, q.reject);
+
+            }, q.reject);
+
+            return q.promise;
+        }
+
+        /**
+         * Used to load the index from disk. If the index is not available, it will be rebuilt
+         * from the segment files. Any legacy log files will also be migrated at this time.
+         */
+        private loadIndex(): ng.IPromise<void> {
+            var q = this.$q.defer<void>(),
+                migrate: () => void;
+
+            // Once the index is available, we'll migrate any legacy files and then persist
+            // the index so it doesn't need to be rebuilt next time.
+            migrate = () => {
+                this.migrateLegacyLogFiles().then(() => {
+
+                    this.saveIndex().then(() => {
+                        q.resolve();
+                    }, q.reject);
+
+                }, q.reject);
+            };
+
+            // First, we need to ensure the log directory is available.
+            this.FileUtilities.createDirectory(Logger.LOG_DIRECTORY).then(() => {
+
+                this.FileUtilities.fileExists(Logger.INDEX_PATH).then((exists: boolean) => {
+
+                    if (!exists) {
+                        this.rebuildIndex().then(migrate, q.reject);
+                        return;
+                    }
+
+                    this.FileUtilities.readTextFile(Logger.INDEX_PATH).then((text: string) => {
+
+                        try {
+                            this.index = JSON.parse(text) || {};
+                        } catch (exception) {
+                            console.warn("Rebuilding the log index because it could not be parsed.", exception);
+                            this.rebuildIndex().then(migrate, q.reject);
+                            return;
+                        }
+
+                        migrate();
+
+                    }, q.reject);
+
+                }, q.reject);
+
+            }, q.reject);
+
+            return q.promise;
+        }
+
+        /**
+         * Used to ensure that the index has been loaded.
+         */
+        private ensureIndex(): ng.IPromise<void> {
+            return this.index ? this.$q.when<void>(null) : this.loadIndex();
+        }
+
+        //#endregion
+
+        //#region Retention Policy
+
+        /**
+         * Used to determine which items should be removed in order to satisfy the retention policy.
+         * The newest items are kept; once any limit is reached, all older items are pruned.
+         * 
+         * @param items The items to examine.
+         * @param getTimestamp A function which returns the timestamp for a given item.
+         * @param getSize A function which returns the size (in bytes) for a given item.
+         * @returns The items that should be removed.
+         */
+        private getItemsToPrune<T>(items: T[], getTimestamp: (item: T) => Date, getSize: (item: T) => number): T[] {
+            var policy = this.retentionPolicy,
+                sortedItems: T[],
+                itemsToPrune: T[] = [],
+                now = moment(),
+                limitReached = false,
+                keptCount = 0,
+                keptBytes = 0,
+                item: T,
+                size: number,
+                i: number;
+
+            if (!policy || !items) {
+                return itemsToPrune;
+            }
+
+            // Sort oldest first so we can walk backwards from the newest item. Note that entries
+            // which have been deserialized from disk will have string timestamps.
+            sortedItems = _.sortBy(items, (item: T) => {
+                return moment(getTimestamp(item)).valueOf();
+            });
+
+            for (i = sortedItems.length - 1; i >= 0; i -= 1) {
+                item = sortedItems[i];
+                size = getSize(item);
+
+                if (!limitReached) {
+                    if (policy.maxAgeInDays && now.diff(moment(getTimestamp(item)), "days", true) > policy.maxAgeInDays) {
+                        limitReached = true;
+                    }
+                    else if (policy.maxEntries && keptCount >= policy.maxEntries) {
+                        limitReached = true;
+                    }
+                    else if (policy.maxTotalBytes && keptBytes + size > policy.maxTotalBytes) {
+                        limitReached = true;
+                    }
+                }
+
+                if (limitReached) {
+                    itemsToPrune.push(item);
+                }
+                else {
+                    keptCount += 1;
+                    keptBytes += size;
+                }
+            }
+
+            return itemsToPrune;
+        }
+
+        /**
+         * Used to remove entries from the in-memory logs that exceed the retention policy.
+         */
+        private pruneInMemoryLogs(): void {
+            var logsToPrune: Models.LogEntry[];
+
+            logsToPrune = this.getItemsToPrune(this.logs, (logEntry: Models.LogEntry) => {
+                return logEntry.timestamp;
+            }, (logEntry: Models.LogEntry) => {
+                return JSON.stringify(logEntry).length;
+            });
+
+            if (logsToPrune.length > 0) {
+                this.logs = _.difference(this.logs, logsToPrune);
+
+                logsToPrune.forEach((logEntry: Models.LogEntry) => {
+                    delete this.shippedLogIds[logEntry.id];
+                });
+            }
+        }
+
+        /**
+         * Used to remove the entries that exceed the retention policy from the segment files.
+         * Segments that no longer contain any entries are deleted, while the others are re-written
+         * without the pruned entries.
+         */
+        private pruneSegments(): ng.IPromise<void> {
+            var q = this.$q.defer<void>(),
+                indexEntries: ILogIndexEntry[],
+                indexEntriesToPrune: ILogIndexEntry[],
+                prunedIdsBySegment: { [segment: string]: string[] } = {},
+                promises: ng.IPromise<void>[] = [];
+
+            indexEntries = _.values(this.index);
+
+            indexEntriesToPrune = this.getItemsToPrune(indexEntries, (indexEntry: ILogIndexEntry) => {
+                return indexEntry.timestamp;
+            }, (indexEntry: ILogIndexEntry) => {
+                return indexEntry.size;
+            });
+
+            if (indexEntriesToPrune.length === 0) {
+                q.resolve();
+                return q.promise;
+            }
+
+            // Group the pruned IDs by the segment they belong to.
+            indexEntriesToPrune.forEach((indexEntry: ILogIndexEntry) => {
+                prunedIdsBySegment[indexEntry.segment] = prunedIdsBySegment[indexEntry.segment] || [];
+                prunedIdsBySegment[indexEntry.segment].push(indexEntry.id);
+                delete this.index[indexEntry.id];
+            });
+
+            _.keys(prunedIdsBySegment).forEach((segment: string) => {
+                var remaining: ILogIndexEntry[],
+                    prunedIds = prunedIdsBySegment[segment],
+                    q2 = this.$q.defer<void>();
+
+                remaining = _.filter(_.values(this.index), (indexEntry: ILogIndexEntry) => {
+                    return indexEntry.segment === segment;
+                });
+
+                if (remaining.length === 0) {
+                    // If every entry in the segment was pruned, the segment can be removed.
+                    promises.push(this.FileUtilities.deleteFile(segment));
+                    return;
+                }
+
+                // Otherwise, re-write the segment without the pruned entries.
+                this.readSegment(segment).then((logEntries: Models.LogEntry[]) => {
+                    var text = "";
+
+                    logEntries.forEach((logEntry: Models.LogEntry) => {
+                        if (!_.contains(prunedIds, logEntry.id)) {
+                            text += JSON.stringify(logEntry) + "\n";
+                        }
+                    });
+
+                    this.FileUtilities.writeTextFile(segment, text, false).then(() => {
+                        q2.resolve();
+                    }, q2.reject);
+
+                }, q2.reject);
+
+                promises.push(q2.promise);
+            });
+
+            // Once all of the I/O operations have completed, then we can finish.
+            this.$q.all(promises).then(() => { q.resolve(); }, q.reject);
+
+            return q.promise;
+        }
+
+        /**
+         * Used to remove the oldest log entries that exceed the limits of the retention policy
+         * (maximum number of entries, total size, and age).
+         * 
+         * This is invoked each time a log entry is written, but should also be invoked
+         * when the application starts.
+         * 
+         * @returns A promise of type void that is resolved once the logs have been pruned.
+         */
+        public enforceRetentionPolicy(): ng.IPromise<void> {
+            var q = this.$q.defer<void>();
+
+            // The in-memory logs are also used as a cache for the logs on disk, so
+            // they are always subject to the policy.
+            this.pruneInMemoryLogs();
+
+            if (!this.logToLocalStorage) {
+                q.resolve();
+                return q.promise;
+            }
+
+            this.enqueue(() => {
+                return this.ensureIndex().then(() => {
+                    return this.pruneSegments();
+                }).then(() => {
+                    return this.saveIndex();
+                });
+            }).then(() => {
+                q.resolve();
+            }, (error: any) => {
+                // Pruning is a best effort operation; if something goes wrong we'll
+                // reload the index and try again the next time an entry is written.
+                this.index = null;
+                console.warn("An error occurred during file I/O in enforceRetentionPolicy().", error);
+                q.resolve();
+            });
+
+            return q.promise;
+        }
+
+        //#endregion
+
         private addLogEntry(logEntry: Models.LogEntry): ng.IPromise<void> {
             var q = this.$q.defer<void>(),
+                segment: string,
+                line: string,
                 errorCallback;
 
+            // Discard any entries that are below the configured minimum level.
+            if (logEntry.level < this.minimumLevel) {
+                q.resolve();
+                return q.promise;
+            }
+
+            // Ensure no sensitive values are stored, even in-memory, since they can be exported.
+            this.redactLogEntry(logEntry);
+
             // Lets handle the simple case first. If we are not logging
             // to disk, then all we need to do is add to the in-memory array.
             if (!this.logToLocalStorage) {
                 this.logs.push(logEntry);
+                this.pruneInMemoryLogs();
                 q.resolve();
                 return q.promise;
             }
@@ -46,35 +666,430 @@
                 this.logToLocalStorage = false;
                 console.warn("Reverting to in-memory logging because an error occurred during file I/O in addLogEntry().", error);
                 this.logs.push(logEntry);
+                this.pruneInMemoryLogs();
                 q.resolve();
             };
 
-            // First, we need to ensure the log directory is available.
-            this.FileUtilities.createDirectory("/logs").then(() => {
-                var logFileName: string,
-                    json: string;
+            try {
+                line = JSON.stringify(logEntry) + "\n";
+            } catch (exception) {
+                // If for some reason we couldn't stringify the log entry (circular reference perhaps?)
+                // then we'll just emit the log entry and error to the console.
+                console.error("Unable to stringify the log entry.", logEntry, exception);
+                q.resolve();
+                return q.promise;
+            }
+
+            segment = this.getSegmentPath(logEntry);
 
-                logFileName = this.Utilities.format("/logs/{0}.log", moment(logEntry.timestamp).format("YYYY-MM-DD_hh-mm-ss-SSS-a"));
+            // Append the entry to the current segment and add it to the index.
+            this.enqueue(() => {
+                return this.ensureIndex().then(() => {
+                    return this.FileUtilities.writeTextFile(segment, line, true);
+                }).then(() => {
+                    this.addToIndex(logEntry, segment, line.length);
+                });
+            }).then(() => {
+
+                // Enforcing the policy will also persist the updated index.
+                this.enforceRetentionPolicy().then(() => {
+                    q.resolve();
+                });
+
+            }, errorCallback);
+
+            return q.promise;
+        }
+
+        /**
+         * Used to remove sensitive values from the message, tags, breadcrumbs, error, and HTTP
+         * fields of the given log entry using the Redactor.
+         * 
+         * @param logEntry The log entry to redact; it is modified in place.
+         */
+        private redactLogEntry(logEntry: Models.LogEntry): void {
+            var headers: { [name: string]: any };
+
+            logEntry.message = this.Redactor.redactText(logEntry.message);
+            logEntry.tags = this.Redactor.redactObject(logEntry.tags);
 
+            // The breadcrumbs are shared with the trail, so they are copied instead of modified.
+            if (logEntry.breadcrumbs) {
+                logEntry.breadcrumbs = _.map(logEntry.breadcrumbs, (breadcrumb: Models.Breadcrumb) => {
+                    var redactedBreadcrumb = new Models.Breadcrumb();
+
+                    redactedBreadcrumb.timestamp = breadcrumb.timestamp;
+                    redactedBreadcrumb.category = breadcrumb.category;
+                    redactedBreadcrumb.message = this.Redactor.redactText(breadcrumb.message);
+
+                    return redactedBreadcrumb;
+                });
+            }
+
+            if (logEntry.error) {
+                logEntry.error.message = this.Redactor.redactText(logEntry.error.message);
+                logEntry.error.stack = this.Redactor.redactText(logEntry.error.stack);
+            }
+
+            logEntry.httpUrl = this.Redactor.redactText(logEntry.httpUrl);
+            logEntry.httpBody = this.Redactor.redactBody(logEntry.httpBody);
+
+            if (logEntry.httpHeaders) {
                 try {
-                    json = JSON.stringify(logEntry);
+                    headers = JSON.parse(logEntry.httpHeaders);
+                    logEntry.httpHeaders = JSON.stringify(this.Redactor.redactHeaders(headers));
                 } catch (exception) {
-                    // If for some reason we couldn't stringify the log entry (circular reference perhaps?)
-                    // then we'll just emit the log entry and error to the console.
-                    console.error("Unable to stringify the log entry.", logEntry, exception);
-                    q.resolve();
+                    logEntry.httpHeaders = this.Redactor.redactText(logEntry.httpHeaders);
+                }
+            }
+        }
+
+        /**
+         * Used to create a new log entry with the common fields populated.
+         * 
+         * @param level The severity level of the entry.
+         * @param message The message for the entry.
+         * @param tags Optional key/value pairs to provide additional context.
+         * @returns A new log entry instance.
+         */
+        private createLogEntry(level: Models.LogLevel, message: string, tags?: { [key: string]: any }): Models.LogEntry {
+            var logEntry: Models.LogEntry;
+
+            logEntry = new Models.LogEntry();
+            logEntry.id = this.Utilities.generateGuid();
+            logEntry.timestamp = new Date();
+            logEntry.level = level;
+            logEntry.message = message;
+            logEntry.tags = tags;
+
+            // Capture what led up to errors so they are easier to diagnose.
+            if (level >= Models.LogLevel.Error && this.breadcrumbs.length > 0) {
+                logEntry.breadcrumbs = _.clone(this.breadcrumbs);
+            }
+
+            return logEntry;
+        }
+
+        //#region Errors
+
+        /**
+         * Used to convert the given error into a shape that can be serialized. The message and
+         * stack of Error objects are not enumerable, so JSON.stringify would otherwise omit them.
+         * 
+         * @param error The error to convert; usually an Error, but strings and objects are also handled.
+         * @returns A serializable representation of the error, or null if no error was given.
+         */
+        private createErrorInfo(error: any): Models.ErrorInfo {
+            var errorInfo: Models.ErrorInfo;
+
+            if (error == null) {
+                return null;
+            }
+
+            errorInfo = new Models.ErrorInfo();
+
+            if (typeof (error) === "string") {
+                errorInfo.message = error;
+                return errorInfo;
+            }
+
+            errorInfo.name = error.name;
+            errorInfo.message = error.message;
+            errorInfo.stack = error.stack;
+
+            // If this isn't an Error (eg a rejected promise's value) we can at least keep its message.
+            if (errorInfo.message == null && !(error instanceof Error)) {
+                try {
+                    errorInfo.message = JSON.stringify(error);
+                } catch (exception) {
+                    errorInfo.message = String(error);
+                }
+            }
+
+            if (typeof (errorInfo.stack) === "string") {
+                errorInfo.frames = this.parseStackTrace(errorInfo.stack);
+            }
+
+            return errorInfo;
+        }
+
+        /**
+         * Used to parse a stack trace into individual frames. Handles the formats used by
+         * V8 (Android and Chrome) and JavaScriptCore (iOS); lines in other formats are skipped.
+         * 
+         * @param stack The stack trace to parse.
+         * @returns The frames of the stack trace, most recent call first.
+         */
+        private parseStackTrace(stack: string): Models.StackFrame[] {
+            var frames: Models.StackFrame[] = [],
+                v8Pattern = /^\s*at\s+(?:(.*?)\s+\()?(.+?):(\d+):(\d+)\)?\s*$/,
+                jscPattern = /^\s*(?:(.*?)@)?(.+?):(\d+):(\d+)\s*$/;
+
+            stack.split("\n").forEach((line: string) => {
+                var match: RegExpExecArray,
+                    frame: Models.StackFrame;
+
+                match = v8Pattern.exec(line) || jscPattern.exec(line);
+
+                if (!match) {
                     return;
                 }
 
-                this.FileUtilities.writeTextFile(logFileName, json).then(() => {
+                frame = new Models.StackFrame();
+                frame.functionName = match[1] || null;
+                frame.fileName = match[2];
+                frame.lineNumber = parseInt(match[3], 10);
+                frame.columnNumber = parseInt(match[4], 10);
+                frame.source = line.trim();
 
-                    q.resolve();
+                frames.push(frame);
+            });
 
-                }, errorCallback);
+            return frames;
+        }
 
-            }, errorCallback);
+        //#endregion
+
+        //#region Breadcrumbs
+
+        /**
+         * Used to record a breadcrumb in the rolling in-memory buffer. The oldest breadcrumb
+         * is discarded once the buffer has reached the configured size.
+         * 
+         * @param category The type of event; one of: navigation, http, dialog, or device.
+         * @param message A short description of the event.
+         */
+        public addBreadcrumb(category: string, message: string): void {
+            var breadcrumb: Models.Breadcrumb;
+
+            if (!this.maxBreadcrumbs) {
+                return;
+            }
+
+            breadcrumb = new Models.Breadcrumb();
+            breadcrumb.timestamp = new Date();
+            breadcrumb.category = category;
+            breadcrumb.message = message;
+
+            this.breadcrumbs.push(breadcrumb);
+
+            if (this.breadcrumbs.length > this.maxBreadcrumbs) {
+                this.breadcrumbs.splice(0, this.breadcrumbs.length - this.maxBreadcrumbs);
+            }
+        }
+
+        /**
+         * Used to get the breadcrumbs that are currently in the buffer, oldest first.
+         * 
+         * @returns A copy of the breadcrumb buffer.
+         */
+        public getBreadcrumbs(): Models.Breadcrumb[] {
+            return _.clone(this.breadcrumbs);
         }
 
+        //#endregion
+
+        //#region Timing
+
+        /**
+         * Used to get a high resolution timestamp in milliseconds. Falls back to the system
+         * clock if the Navigation Timing API isn't available.
+         */
+        private now(): number {
+            return window.performance && window.performance.now ? window.performance.now() : Date.now();
+        }
+
+        /**
+         * Used to add an entry to the rolling in-memory timing buffer. The oldest entry is
+         * discarded once the buffer has reached the configured size.
+         */
+        private addTimingEntry(category: string, name: string, timestamp: Date, duration: number): void {
+            var timingEntry: Models.TimingEntry;
+
+            if (!this.maxTimings) {
+                return;
+            }
+
+            timingEntry = new Models.TimingEntry();
+            timingEntry.timestamp = timestamp;
+            timingEntry.category = category;
+            timingEntry.name = this.Redactor.redactText(name);
+            timingEntry.duration = Math.round(duration);
+
+            this.timings.push(timingEntry);
+
+            if (this.timings.length > this.maxTimings) {
+                this.timings.splice(0, this.timings.length - this.maxTimings);
+            }
+        }
+
+        /**
+         * Used to get the value at the given percentile using the nearest-rank method.
+         * 
+         * @param sortedValues The values to use, sorted in ascending order.
+         * @param percentile The percentile to get (eg 95).
+         */
+        private getPercentile(sortedValues: number[], percentile: number): number {
+            var rank = Math.ceil((percentile / 100) * sortedValues.length);
+
+            return sortedValues[Math.max(rank, 1) - 1];
+        }
+
+        /**
+         * Used to start timing an operation. The timing entry is recorded once the timer is
+         * stopped via stopTimer().
+         * 
+         * @param category The type of operation; eg http, view, or file.
+         * @param name Identifies the operation within its category (eg the endpoint or route).
+         * @returns The ID of the timer, which should be passed to stopTimer().
+         */
+        public startTimer(category: string, name: string): string {
+            var id = this.Utilities.generateGuid();
+
+            this.timers[id] = {
+                category: category,
+                name: name,
+                timestamp: new Date(),
+                start: this.now()
+            };
+
+            return id;
+        }
+
+        /**
+         * Used to stop the given timer and record its timing entry.
+         * 
+         * @param id The ID of the timer that was returned by startTimer().
+         * @returns The duration in milliseconds, or null if the timer doesn't exist (eg it was already stopped).
+         */
+        public stopTimer(id: string): number {
+            var timer = this.timers[id],
+                duration: number;
+
+            if (!timer) {
+                return null;
+            }
+
+            delete this.timers[id];
+
+            duration = this.now() - timer.start;
+            this.addTimingEntry(timer.category, timer.name, timer.timestamp, duration);
+
+            return duration;
+        }
+
+        /**
+         * Used to discard the given timer without recording a timing entry (eg if the
+         * operation was abandoned).
+         * 
+         * @param id The ID of the timer that was returned by startTimer().
+         */
+        public cancelTimer(id: string): void {
+            delete this.timers[id];
+        }
+
+        /**
+         * Used to record the current time with the given name so it can be used as the start
+         * or end of a measurement via measure(). Recording a mark with the same name again
+         * will replace the previous mark.
+         * 
+         * @param name The name of the mark.
+         */
+        public mark(name: string): void {
+            this.marks[name] = this.now();
+        }
+
+        /**
+         * Used to remove the given mark.
+         * 
+         * @param name The name of the mark.
+         */
+        public clearMark(name: string): void {
+            delete this.marks[name];
+        }
+
+        /**
+         * Used to record a timing entry for the time between two marks.
+         * 
+         * @param category The type of operation; eg http, view, or file.
+         * @param name Identifies the operation within its category (eg the endpoint or route).
+         * @param startMark The name of the mark at the start of the operation.
+         * @param endMark The name of the mark at the end of the operation; if omitted the current time is used.
+         * @returns The duration in milliseconds, or null if either of the marks doesn't exist.
+         */
+        public measure(category: string, name: string, startMark: string, endMark?: string): number {
+            var start = this.marks[startMark],
+                end = endMark ? this.marks[endMark] : this.now(),
+                duration: number;
+
+            if (start == null || end == null) {
+                return null;
+            }
+
+            duration = end - start;
+
+            // The mark's high resolution timestamp isn't relative to the epoch, so work backwards from now.
+            this.addTimingEntry(category, name, new Date(Date.now() - (this.now() - start)), duration);
+
+            return duration;
+        }
+
+        /**
+         * Used to get the timing entries that are currently in the buffer, oldest first.
+         * 
+         * @returns A copy of the timing buffer.
+         */
+        public getTimings(): Models.TimingEntry[] {
+            return _.clone(this.timings);
+        }
+
+        /**
+         * Used to summarize the timing entries that are currently in the buffer. Entries are
+         * grouped by category and name (eg per endpoint or per route).
+         * 
+         * @returns The summaries sorted by category and then name.
+         */
+        public getTimingSummaries(): Models.TimingSummary[] {
+            var groups: _.Dictionary<Models.TimingEntry[]>,
+                summaries: Models.TimingSummary[];
+
+            groups = _.groupBy(this.timings, (timingEntry: Models.TimingEntry) => {
+                return timingEntry.category + " " + timingEntry.name;
+            });
+
+            summaries = _.map(groups, (timingEntries: Models.TimingEntry[]) => {
+                var summary = new Models.TimingSummary(),
+                    durations: number[];
+
+                durations = _.sortBy(_.pluck(timingEntries, "duration"), (duration: number) => {
+                    return duration;
+                });
+
+                summary.category = timingEntries[0].category;
+                summary.name = timingEntries[0].name;
+                summary.count = durations.length;
+                summary.p50 = this.getPercentile(durations, 50);
+                summary.p95 = this.getPercentile(durations, 95);
+                summary.max = _.last(durations);
+
+                return summary;
+            });
+
+            return _.sortBy(summaries, (summary: Models.TimingSummary) => {
+                return summary.category + " " + summary.name;
+            });
+        }
+
+        /**
+         * Used to remove all of the entries from the timing buffer. Timers and marks that
+         * are in progress are not affected.
+         */
+        public clearTimings(): void {
+            this.timings = [];
+        }
+
+        //#endregion
+
         public getLog(id: string): ng.IPromise<Models.LogEntry> {
             var q = this.$q.defer<Models.LogEntry>(),
                 logEntry: Models.LogEntry,
@@ -99,7 +1114,7 @@
             }
 
             // If we didn't find the log entry in-memory and we are using local storage
-            // then we'll read in the logs to see if it is available in storage.
+            // then we'll use the index to determine which segment it is in.
 
             // Define our common error callback; if something goes wrong then we can just
             // use the in-memory array and fall back to in-memory logging.
@@ -109,8 +1124,18 @@
                 q.resolve(null);
             };
 
-            // Delegate to getLogs() and then try to find the specific log entry.
-            this.getLogs().then((logEntries: Models.LogEntry[]) => {
+            this.enqueue(() => {
+                return this.ensureIndex().then(() => {
+                    var indexEntry = this.index[id];
+
+                    if (!indexEntry) {
+                        return this.$q.when<Models.LogEntry[]>([]);
+                    }
+
+                    // Only the segment that contains the entry needs to be read.
+                    return this.readSegment(indexEntry.segment);
+                });
+            }).then((logEntries: Models.LogEntry[]) => {
 
                 logEntry = _.find(logEntries, (logEntry: Models.LogEntry) => {
                     return logEntry.id === id;
@@ -125,7 +1150,6 @@
 
         public getLogs(): ng.IPromise<Models.LogEntry[]> {
             var q = this.$q.defer<Models.LogEntry[]>(),
-                promises: ng.IPromise<string>[] = [],
                 errorCallback;
 
             // Lets handle the simple case first. If we are not logging
@@ -145,52 +1169,188 @@
                 q.resolve(this.logs);
             };
 
-            this.logs = [];
+            this.enqueue(() => {
+                return this.ensureIndex().then(() => {
+                    var segments: string[],
+                        promises: ng.IPromise<Models.LogEntry[]>[] = [];
 
-            // First, we need to ensure the log directory is available.
-            this.FileUtilities.createDirectory("/logs").then(() => {
-
-                // If the log directory was available, then get all of its files.
-                this.FileUtilities.getFiles("/logs").then((entries: Entry[]) => {
+                    // Read in each of the segments that are referenced by the index.
+                    segments = _.uniq(_.pluck(_.values(this.index), "segment"));
 
-                    // Filter it down to just .log files.
-                    entries = _.filter(entries, (entry: Entry) => {
-                        return this.Utilities.endsWith(entry.name, ".log");
+                    segments.forEach((segment: string) => {
+                        promises.push(this.readSegment(segment));
                     });
 
-                    // Read in the contents of each file (which will be JSON).
-                    entries.forEach((entry: Entry) => {
-                        var promise: ng.IPromise<string>;
+                    return this.$q.all(promises);
+                });
+            }).then((results: Models.LogEntry[][]) => {
 
-                        // Read in the file and deserialize its JSON contents back to
-                        // a log model object.
-                        promise = this.FileUtilities.readTextFile(entry.fullPath);
-                        promise.then((text: string) => {
-                            var logEntry: Models.LogEntry;
+                this.logs = <Models.LogEntry[]>_.flatten(results);
 
-                            logEntry = <Models.LogEntry>JSON.parse(text);
+                q.resolve(this.logs);
 
-                            this.logs.push(logEntry);
+            }, errorCallback);
 
-                        }, errorCallback);
+            return q.promise;
+        }
 
-                        // Store a reference to this file I/O promise because we have
-                        // to wait until all the I/O operations have completed before
-                        // we can resolve this method's promise.
-                        promises.push(promise);
+        /**
+         * Used to narrow down the given log entries to those which match the given filter.
+         * 
+         * Entries written before levels were introduced are treated as errors.
+         * 
+         * @param logEntries The log entries to filter.
+         * @param filter The criteria that the entries must match.
+         * @returns The entries which match all of the criteria in the filter.
+         */
+        public filterLogs(logEntries: Models.LogEntry[], filter: Models.LogFilter): Models.LogEntry[] {
+            var searchText: string,
+                startDate: Moment,
+                endDate: Moment;
+
+            if (!filter) {
+                return logEntries;
+            }
+
+            searchText = filter.searchText ? filter.searchText.toLowerCase() : null;
+            startDate = filter.startDate ? moment(filter.startDate).startOf("day") : null;
+            endDate = filter.endDate ? moment(filter.endDate).endOf("day") : null;
+
+            return _.filter(logEntries, (logEntry: Models.LogEntry) => {
+                var level: Models.LogLevel,
+                    timestamp: Moment,
+                    searchableText: string;
+
+                level = logEntry.level == null ? Models.LogLevel.Error : logEntry.level;
+
+                if (filter.levels && filter.levels.length > 0 && !_.contains(filter.levels, level)) {
+                    return false;
+                }
+
+                if (filter.minHttpStatus != null || filter.maxHttpStatus != null) {
+
+                    if (logEntry.httpStatus == null) {
+                        return false;
+                    }
+
+                    if (filter.minHttpStatus != null && logEntry.httpStatus < filter.minHttpStatus) {
+                        return false;
+                    }
+
+                    if (filter.maxHttpStatus != null && logEntry.httpStatus > filter.maxHttpStatus) {
+                        return false;
+                    }
+                }
+
+                if (startDate || endDate) {
+                    timestamp = moment(logEntry.timestamp);
+
+                    if ((startDate && timestamp.isBefore(startDate)) || (endDate && timestamp.isAfter(endDate))) {
+                        return false;
+                    }
+                }
+
+                if (searchText) {
+                    searchableText = [
+                        logEntry.message,
+                        logEntry.uri,
+                        logEntry.httpUrl,
+                        logEntry.httpRequestId,
+                        logEntry.error ? logEntry.error.message : null,
+                        logEntry.error ? logEntry.error.stack : null
+                    ].join("\n").toLowerCase();
+
+                    if (searchableText.indexOf(searchText) === -1) {
+                        return false;
+                    }
+                }
+
+                return true;
+            });
+        }
+
+        /**
+         * Used to get the log entries which have not yet been marked as shipped via markLogsShipped().
+         * 
+         * @returns A promise of log entries which have not been shipped.
+         */
+        public getUnshippedLogs(): ng.IPromise<Models.LogEntry[]> {
+            var q = this.$q.defer<Models.LogEntry[]>();
+
+            // Lets handle the simple case first. If we are not logging to
+            // disk, then all we need to do is filter the in-memory array.
+            if (!this.logToLocalStorage) {
+                q.resolve(_.filter(this.logs, (logEntry: Models.LogEntry) => {
+                    return !this.shippedLogIds[logEntry.id];
+                }));
+                return q.promise;
+            }
+
+            // If we are utilizing local storage, then we'll use the index to determine
+            // which segments contain entries that haven't been shipped and read only those.
+            this.enqueue(() => {
+                return this.ensureIndex().then(() => {
+                    var unshipped: ILogIndexEntry[],
+                        segments: string[],
+                        promises: ng.IPromise<Models.LogEntry[]>[] = [];
+
+                    unshipped = _.filter(_.values(this.index), (indexEntry: ILogIndexEntry) => {
+                        return !indexEntry.shipped;
                     });
 
-                    // We need to wait until all of the I/O operations have completed before
-                    // resolving this promise.
-                    this.$q.all(promises).then(() => {
+                    segments = _.uniq(_.pluck(unshipped, "segment"));
 
-                        q.resolve(this.logs);
+                    segments.forEach((segment: string) => {
+                        promises.push(this.readSegment(segment));
+                    });
 
-                    }, q.reject);
+                    return this.$q.all(promises);
+                });
+            }).then((results: Models.LogEntry[][]) => {
+                var logEntries = <Models.LogEntry[]>_.flatten(results);
 
-                }, errorCallback);
+                q.resolve(_.filter(logEntries, (logEntry: Models.LogEntry) => {
+                    return this.index[logEntry.id] && !this.index[logEntry.id].shipped;
+                }));
 
-            }, errorCallback);
+            }, q.reject);
+
+            return q.promise;
+        }
+
+        /**
+         * Used to mark the given log entries as shipped so they will no longer be returned
+         * from getUnshippedLogs().
+         * 
+         * @param ids The IDs of the log entries that were shipped.
+         * @returns A promise of type void that is resolved once the entries have been marked.
+         */
+        public markLogsShipped(ids: string[]): ng.IPromise<void> {
+            var q = this.$q.defer<void>();
+
+            if (!this.logToLocalStorage) {
+                ids.forEach((id: string) => {
+                    this.shippedLogIds[id] = true;
+                });
+
+                q.resolve();
+                return q.promise;
+            }
+
+            this.enqueue(() => {
+                return this.ensureIndex().then(() => {
+
+                    ids.forEach((id: string) => {
+                        if (this.index[id]) {
+                            this.index[id].shipped = true;
+                        }
+                    });
+
+                    return this.saveIndex();
+                });
+            }).then(() => {
+                q.resolve();
+            }, q.reject);
 
             return q.promise;
         }
@@ -203,6 +1363,7 @@
             // to disk, then all we need to do is clear the in-memory array.
             if (!this.logToLocalStorage) {
                 this.logs = [];
+                this.shippedLogIds = {};
                 q.resolve();
                 return q.promise;
             }
@@ -218,30 +1379,105 @@
                 q.resolve();
             };
 
-            // First, we need to ensure the log directory is available.
-            this.FileUtilities.createDirectory("/logs").then(() => {
-
-                // If the local storage logs directory is available then lets remove all of its files.
-                this.FileUtilities.emptyDirectory("/logs").then(() => {
+            this.enqueue(() => {
+                // First, we need to ensure the log directory is available.
+                return this.FileUtilities.createDirectory(Logger.LOG_DIRECTORY).then(() => {
 
-                    this.logs = [];
+                    // If the local storage logs directory is available then lets remove all of
+                    // its files (this includes the segments and the index).
+                    return this.FileUtilities.emptyDirectory(Logger.LOG_DIRECTORY);
+                });
+            }).then(() => {
 
-                    q.resolve();
+                this.logs = [];
+                this.shippedLogIds = {};
+                this.index = {};
 
-                }, errorCallback);
+                q.resolve();
 
             }, errorCallback);
 
             return q.promise;
         }
 
+        /**
+         * Used to write a log entry with the given severity level.
+         * 
+         * @param level The severity level of the entry.
+         * @param message The message for the entry.
+         * @param error An optional error object to associate with the entry.
+         * @param tags Optional key/value pairs to provide additional context.
+         */
+        public log(level: Models.LogLevel, message: string, error?: Error, tags?: { [key: string]: any }): void {
+            var logEntry: Models.LogEntry;
+
+            logEntry = this.createLogEntry(level, message, tags);
+            logEntry.error = this.createErrorInfo(error);
+
+            // This won't tell us what script file the error came from, but it
+            // will at least let us know which URL and hash tag they're on.
+            logEntry.uri = window.location.toString();
+
+            this.addLogEntry(logEntry);
+        }
+
+        /**
+         * Used to write a log entry with the debug level.
+         * 
+         * @param message The message for the entry.
+         * @param tags Optional key/value pairs to provide additional context.
+         */
+        public debug(message: string, tags?: { [key: string]: any }): void {
+            this.log(Models.LogLevel.Debug, message, null, tags);
+        }
+
+        /**
+         * Used to write a log entry with the info level.
+         * 
+         * @param message The message for the entry.
+         * @param tags Optional key/value pairs to provide additional context.
+         */
+        public info(message: string, tags?: { [key: string]: any }): void {
+            this.log(Models.LogLevel.Info, message, null, tags);
+        }
+
+        /**
+         * Used to write a log entry with the warn level.
+         * 
+         * @param message The message for the entry.
+         * @param error An optional error object to associate with the entry.
+         * @param tags Optional key/value pairs to provide additional context.
+         */
+        public warn(message: string, error?: Error, tags?: { [key: string]: any }): void {
+            this.log(Models.LogLevel.Warn, message, error, tags);
+        }
+
+        /**
+         * Used to write a log entry with the error level.
+         * 
+         * @param message The message for the entry.
+         * @param error An optional error object to associate with the entry.
+         * @param tags Optional key/value pairs to provide additional context.
+         */
+        public error(message: string, error?: Error, tags?: { [key: string]: any }): void {
+            this.log(Models.LogLevel.Error, message, error, tags);
+        }
+
+        /**
+         * Used to write a log entry with the fatal level.
+         * 
+         * @param message The message for the entry.
+         * @param error An optional error object to associate with the entry.
+         * @param tags Optional key/value pairs to provide additional context.
+         */
+        public fatal(message: string, error?: Error, tags?: { [key: string]: any }): void {
+            this.log(Models.LogLevel.Fatal, message, error, tags);
+        }
+
         public logWindowError(message: string, uri: string, lineNumber: number, colNumber: number): void {
             var logEntry: Models.LogEntry;
 
-            logEntry = new Models.LogEntry();
-            logEntry.id = this.Utilities.generateGuid();
-            logEntry.timestamp = new Date();
-            logEntry.message = "Unhandled JS Exception: " + message;
+            logEntry = this.createLogEntry(Models.LogLevel.Error, "Unhandled JS Exception: " + message);
             logEntry.uri = uri;
             logEntry.lineNumber = lineNumber;
             logEntry.colNumber = colNumber;
@@ -250,51 +1486,79 @@
         }
 
         public logError(message: string, error: Error): void {
+            this.error(message, error);
+        }
+
+        public logHttpRequestConfig(config: Interfaces.RequestConfig): void {
             var logEntry: Models.LogEntry;
 
-            logEntry = new Models.LogEntry();
-            logEntry.id = this.Utilities.generateGuid();
-            logEntry.timestamp = new Date();
-            logEntry.message = message;
-            logEntry.error = error;
+            logEntry = this.createLogEntry(Models.LogLevel.Info, "HTTP Request");
+            logEntry.uri = window.location.href;
 
-            // This won't tell us what script file the error came from, but it
-            // will at least let us know which URL and hash tag they're on.
-            logEntry.uri = window.location.toString();
+            logEntry.httpUrl = config.url;
+            logEntry.httpBody = typeof (config.data) === "string" ? config.data : JSON.stringify(config.data);
+            logEntry.httpHeaders = JSON.stringify(config.headers);
+            logEntry.httpRequestId = config.requestId || null;
+            logEntry.httpSessionId = config.requestId ? this.sessionId : null;
 
             this.addLogEntry(logEntry);
         }
 
-        public logHttpRequestConfig(config: Interfaces.RequestConfig): void {
-            var logEntry: Models.LogEntry;
+        public logHttpRequestSignature(config: Interfaces.RequestConfig, signature: Models.RequestSignature): void {
+            var logEntry: Models.LogEntry,
+                details: any;
+
+            // The secret key itself is never logged; only the ID of the key is included.
+            details = {
+                keyId: signature.keyId,
+                key: this.Redactor.getReplacement(),
+                algorithm: "hmac-sha256",
+                timestamp: signature.timestamp,
+                nonce: signature.nonce,
+                bodyHash: signature.bodyHash,
+                clockOffsetInMilliseconds: signature.clockOffsetInMilliseconds,
+                stringToSign: signature.stringToSign,
+                signature: signature.signature
+            };
 
-            logEntry = new Models.LogEntry();
-            logEntry.id = this.Utilities.generateGuid();
-            logEntry.timestamp = new Date();
+            logEntry = this.createLogEntry(Models.LogLevel.Info, "HTTP Request Signature");
             logEntry.uri = window.location.href;
-            logEntry.message = "HTTP Request";
 
             logEntry.httpUrl = config.url;
-            logEntry.httpBody = typeof (config.data) === "string" ? config.data : JSON.stringify(config.data);
-            logEntry.httpHeaders = JSON.stringify(config.headers);
+            logEntry.httpBody = JSON.stringify(details);
+            logEntry.httpHeaders = JSON.stringify(_.pick(config.headers, ["X-Signature-Timestamp", "X-Signature-Nonce", "X-Content-SHA256", "X-Signature"]));
+            logEntry.httpRequestId = config.requestId || null;
+            logEntry.httpSessionId = config.requestId ? this.sessionId : null;
 
             this.addLogEntry(logEntry);
         }
 
         public logHttpResponse(httpResponse: ng.IHttpPromiseCallbackArg<any>): void {
-            var logEntry: Models.LogEntry;
+            var logEntry: Models.LogEntry,
+                level: Models.LogLevel;
 
-            logEntry = new Models.LogEntry();
-            logEntry.id = this.Utilities.generateGuid();
-            logEntry.timestamp = new Date();
+            // Server errors and failed connections (status 0) are errors, while the
+            // other non-200 level statuses are warnings.
+            if (httpResponse.status === 0 || httpResponse.status >= 500) {
+                level = Models.LogLevel.Error;
+            }
+            else if (httpResponse.status >= 400) {
+                level = Models.LogLevel.Warn;
+            }
+            else {
+                level = Models.LogLevel.Info;
+            }
+
+            logEntry = this.createLogEntry(level, "HTTP Response");
             logEntry.uri = window.location.href;
-            logEntry.message = "HTTP Response";
 
             logEntry.httpUrl = httpResponse.config.url;
             logEntry.httpStatus = httpResponse.status;
             logEntry.httpStatusText = httpResponse.statusText;
             logEntry.httpBody = typeof (httpResponse.data) === "string" ? httpResponse.data : JSON.stringify(httpResponse.data);
-            logEntry.httpHeaders = JSON.stringify(httpResponse.headers);
+            logEntry.httpHeaders = JSON.stringify(typeof (httpResponse.headers) === "function" ? (<any>httpResponse.headers)() : httpResponse.headers);
+            logEntry.httpRequestId = (<Interfaces.RequestConfig>httpResponse.config).requestId || null;
+            logEntry.httpSessionId = logEntry.httpRequestId ? this.sessionId : null;
 
             this.addLogEntry(logEntry);
         }
@@ -306,5 +1570,28 @@
         public getLogToLocalStorage(): boolean {
             return this.logToLocalStorage;
         }
+
+        public setMinimumLevel(minimumLevel: Models.LogLevel): void {
+            this.minimumLevel = minimumLevel;
+        }
+
+        public getMinimumLevel(): Models.LogLevel {
+            return this.minimumLevel;
+        }
+
+        public getLogDirectory(): string {
+            return Logger.LOG_DIRECTORY;
+        }
+
+        /**
+         * Used to get the ID of the current application session. A new ID is generated each
+         * time the application is launched; it is sent with each API request (see HttpInterceptor)
+         * so the server's traces can be matched up with the logs from a device.
+         * 
+         * @returns The ID of the current session.
+         */
+        public getSessionId(): string {
+            return this.sessionId;
+        }
     }
 }
\ No newline at end of file
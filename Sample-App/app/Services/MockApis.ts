@@ -5,24 +5,29 @@
     /**
      * Provides a set of mocked up APIs for functions that aren't available in the Apache
      * Ripple Emulator. Also allows us to mock up responses to API requests when the application
-     * is in "Mock API" mode (via the development tools).
+     * is in "Mock API" mode (via the development tools); the mocked endpoints are declared in
+     * Services.MockRoutes and are handled by the MockRouter and the MockBackend.
      */
     export class MockApis {
 
-        public static $inject = ["$q", "$httpBackend", "$ionicPopup", "$ionicLoading", "Utilities"];
+        public static $inject = ["$q", "$httpBackend", "$ionicPopup", "$ionicLoading", "Utilities", "MockRouter", "MockBackend"];
 
         private $q: ng.IQService;
         private $httpBackend: ng.IHttpBackendService;
         private Utilities: Utilities;
+        private MockRouter: MockRouter;
+        private MockBackend: MockBackend;
         private $ionicPopup: any;
         private $ionicLoading: any;
 
         private isProgressIndicatorShown: boolean;
 
-        constructor($q: ng.IQService, $httpBackend: ng.IHttpBackendService, $ionicPopup: any, $ionicLoading: any, Utilities: Utilities) {
+        constructor($q: ng.IQService, $httpBackend: ng.IHttpBackendService, $ionicPopup: any, $ionicLoading: any, Utilities: Utilities, MockRouter: MockRouter, MockBackend: MockBackend) {
             this.$q = $q;
             this.$httpBackend = $httpBackend;
             this.Utilities = Utilities;
+            this.MockRouter = MockRouter;
+            this.MockBackend = MockBackend;
             this.$ionicPopup = $ionicPopup;
             this.$ionicLoading = $ionicLoading;
 
@@ -90,8 +95,17 @@
             this.$httpBackend.whenGET(/.*\.html/).passThrough();
 
             if (mock) {
-                // Mock up all the API requests.
-                //this.$httpBackend.whenGET(/someUrl/).respond(200, this.getMockTokenGetResponse());
+                // Allow requests that aren't for our API (eg for the scripts and source maps that
+                // the Symbolicator downloads) to go through; only API requests have a version header.
+                this.$httpBackend.whenGET(/.*/, (headers: any) => {
+                    /*tslint:disable no-string-literal*/
+                    return !headers["X-API-Version"];
+                    /*tslint:enable no-string-literal*/
+                }).passThrough();
+
+                // Mock up all the API requests and the collections of the fake backend; see MockRoutes.
+                this.MockRouter.installRoutes();
+                this.MockBackend.install();
             }
             else {
                 // Allow ALL HTTP requests to go through.
@@ -105,6 +119,14 @@
             }
         }
 
+        /**
+         * Used to discard the changes that were made to the data of the fake backend while API
+         * requests were mocked; see MockBackend.
+         */
+        public resetMockData(): void {
+            this.MockBackend.reset();
+        }
+
         /**
          * Used to mock up the APIs that are not present when running in the Apache Ripple
          * emulator so that we can control what happens in the emulator.
@@ -0,0 +1,407 @@
+﻿module JustinCredible.SampleApp.Services {
+
+    /**
+     * A small stateful fake of our REST API which is used when API requests are mocked, so that
+     * changes made in mock mode (eg creating or editing an item) are reflected by later requests.
+     * 
+     * Each collection declared in Services.MockRoutes (see Interfaces.MockCollection) supports:
+     * 
+     * GET url: A page of the items; see DataTypes.PageParams and DataTypes.PagedResponse.
+     * GET url/:id: The item, or a 404 if it doesn't exist.
+     * POST url: Creates the item and responds with a 201; its ID is assigned automatically.
+     * PUT url/:id: Replaces the item.
+     * PATCH url/:id: Updates the given properties of the item.
+     * DELETE url/:id: Removes the item and responds with a 204.
+     * 
+     * Items that are not valid are rejected with a 422 and a DataTypes.ValidationErrorResponse.
+     * 
+     * The items are persisted in local storage so they survive reloads of the application. Each
+     * collection is seeded from its fixture the first time it is used, and again after reset().
+     */
+    export class MockBackend {
+
+        public static $inject = ["Utilities", "MockRouter"];
+
+        /**
+         * The local storage key that the items of all of the collections are persisted under.
+         */
+        private static STORAGE_KEY = "MOCK_BACKEND";
+
+        /**
+         * The largest page size that may be requested.
+         */
+        private static MAX_PAGE_SIZE = 100;
+
+        private Utilities: Utilities;
+        private MockRouter: MockRouter;
+
+        private data: { [collectionName: string]: any[] };
+
+        constructor(Utilities: Utilities, MockRouter: MockRouter) {
+            this.Utilities = Utilities;
+            this.MockRouter = MockRouter;
+
+            this.data = null;
+        }
+
+        //#region Public API
+
+        /**
+         * Used to register the routes of each collection with the MockRouter. This should only be
+         * called once (see MockApis.mockHttpCalls).
+         */
+        public install(): void {
+            _.each(MockRoutes.collections, (collection: Interfaces.MockCollection) => {
+                this.installCollection(collection);
+            });
+        }
+
+        /**
+         * Used to discard all of the changes made to the collections. Each collection is seeded
+         * from its fixture again the next time it is used.
+         */
+        public reset(): void {
+            this.data = {};
+            localStorage.removeItem(MockBackend.STORAGE_KEY);
+        }
+
+        //#endregion
+
+        //#region Private Helper Methods
+
+        /**
+         * Used to register the list, create, read, update, and delete routes of the given collection.
+         * 
+         * @param collection The collection to register the routes of.
+         */
+        private installCollection(collection: Interfaces.MockCollection): void {
+            var url = collection.url.replace(/\/$/, ""),
+                itemUrl = url + "/:id";
+
+            this.MockRouter.register({
+                method: "GET",
+                url: url,
+                respond: this.authorize(collection, (request: Interfaces.MockRequest) => {
+                    return this.list(collection, request);
+                })
+            });
+
+            this.MockRouter.register({
+                method: "GET",
+                url: itemUrl,
+                respond: this.authorize(collection, (request: Interfaces.MockRequest) => {
+                    var item = this.find(collection, request);
+
+                    return item ? { data: item } : null;
+                })
+            });
+
+            this.MockRouter.register({
+                method: "POST",
+                url: url,
+                respond: this.authorize(collection, (request: Interfaces.MockRequest) => {
+                    return this.create(collection, request);
+                })
+            });
+
+            this.MockRouter.register({
+                method: "PUT",
+                url: itemUrl,
+                respond: this.authorize(collection, (request: Interfaces.MockRequest) => {
+                    return this.update(collection, request, false);
+                })
+            });
+
+            this.MockRouter.register({
+                method: "PATCH",
+                url: itemUrl,
+                respond: this.authorize(collection, (request: Interfaces.MockRequest) => {
+                    return this.update(collection, request, true);
+                })
+            });
+
+            this.MockRouter.register({
+                method: "DELETE",
+                url: itemUrl,
+                respond: this.authorize(collection, (request: Interfaces.MockRequest) => {
+                    return this.remove(collection, request);
+                })
+            });
+        }
+
+        /**
+         * Used to wrap the given handler so that requests without an Authorization header are
+         * rejected with a 401 if the collection requires it.
+         * 
+         * @param collection The collection that the handler belongs to.
+         * @param handler The handler for the requests.
+         * @returns The handler to use for the route.
+         */
+        private authorize(collection: Interfaces.MockCollection, handler: (request: Interfaces.MockRequest) => Interfaces.MockResponse): (request: Interfaces.MockRequest) => Interfaces.MockResponse {
+            return (request: Interfaces.MockRequest) => {
+                var isAuthorized: boolean;
+
+                isAuthorized = _.any(_.keys(request.headers), (name: string) => {
+                    return name.toLowerCase() === "authorization" && !!request.headers[name];
+                });
+
+                if (collection.requireAuthorization && !isAuthorized) {
+                    return { status: 401, data: { message: "You need to sign in to do this." } };
+                }
+
+                return handler(request);
+            };
+        }
+
+        /**
+         * Responds with a page of the items of the given collection.
+         */
+        private list(collection: Interfaces.MockCollection, request: Interfaces.MockRequest): Interfaces.MockResponse {
+            var params = <DataTypes.PageParams>request.query,
+                items = this.getItems(collection),
+                page = this.parseInteger(params.page, 1),
+                pageSize = this.parseInteger(params.pageSize, collection.pageSize || 20),
+                sort = params.sort,
+                descending: boolean,
+                response: DataTypes.PagedResponse<any>;
+
+            if (!page || page < 1) {
+                return this.createValidationError({ page: "The page must be a whole number greater than zero." });
+            }
+
+            if (!pageSize || pageSize < 1 || pageSize > MockBackend.MAX_PAGE_SIZE) {
+                return this.createValidationError({ pageSize: this.Utilities.format("The page size must be a whole number from 1 to {0}.", MockBackend.MAX_PAGE_SIZE) });
+            }
+
+            if (sort) {
+                descending = this.Utilities.startsWith(sort, "-");
+                sort = sort.replace(/^-/, "");
+
+                items = _.sortBy(items, (item: any) => {
+                    return typeof (item[sort]) === "string" ? item[sort].toLowerCase() : item[sort];
+                });
+
+                if (descending) {
+                    items.reverse();
+                }
+            }
+
+            response = {
+                items: items.slice((page - 1) * pageSize, page * pageSize),
+                page: page,
+                pageSize: pageSize,
+                totalCount: items.length,
+                totalPages: Math.ceil(items.length / pageSize)
+            };
+
+            return { data: response };
+        }
+
+        /**
+         * Adds the item in the body of the request to the given collection.
+         */
+        private create(collection: Interfaces.MockCollection, request: Interfaces.MockRequest): Interfaces.MockResponse {
+            var items = this.getItems(collection),
+                item: any,
+                errors: { [property: string]: string };
+
+            if (!_.isPlainObject(request.data)) {
+                return this.createValidationError({ body: "The body of the request must be a JSON object." });
+            }
+
+            item = _.omit(request.data, "id");
+            errors = this.validate(collection, item, items);
+
+            if (errors) {
+                return this.createValidationError(errors);
+            }
+
+            item.id = (_.max(_.map(items, (other: any) => {
+                return typeof (other.id) === "number" ? other.id : 0;
+            }).concat([0])) || 0) + 1;
+
+            items.push(item);
+            this.save();
+
+            return {
+                status: 201,
+                headers: { "Location": request.url.split(/[?#]/)[0].replace(/\/$/, "") + "/" + item.id },
+                data: item
+            };
+        }
+
+        /**
+         * Replaces (or if merge is true, updates) the item of the given collection with the item
+         * in the body of the request.
+         */
+        private update(collection: Interfaces.MockCollection, request: Interfaces.MockRequest, merge: boolean): Interfaces.MockResponse {
+            var items = this.getItems(collection),
+                existing = this.find(collection, request),
+                item: any,
+                errors: { [property: string]: string };
+
+            if (!existing) {
+                return null;
+            }
+
+            if (!_.isPlainObject(request.data)) {
+                return this.createValidationError({ body: "The body of the request must be a JSON object." });
+            }
+
+            item = merge ? angular.extend({}, existing, request.data) : angular.extend({}, request.data);
+            item.id = existing.id;
+
+            errors = this.validate(collection, item, _.without(items, existing));
+
+            if (errors) {
+                return this.createValidationError(errors);
+            }
+
+            items[items.indexOf(existing)] = item;
+            this.save();
+
+            return { data: item };
+        }
+
+        /**
+         * Removes the item of the given collection with the ID in the URL of the request.
+         */
+        private remove(collection: Interfaces.MockCollection, request: Interfaces.MockRequest): Interfaces.MockResponse {
+            var items = this.getItems(collection),
+                existing = this.find(collection, request);
+
+            if (!existing) {
+                return null;
+            }
+
+            items.splice(items.indexOf(existing), 1);
+            this.save();
+
+            return { status: 204, data: null };
+        }
+
+        /**
+         * Used to get the item of the given collection with the ID in the URL of the given request.
+         * 
+         * @returns The item, or null if it doesn't exist.
+         */
+        private find(collection: Interfaces.MockCollection, request: Interfaces.MockRequest): any {
+            var id: string;
+
+            /*tslint:disable no-string-literal*/
+            id = request.params["id"];
+            /*tslint:enable no-string-literal*/
+
+            return _.find(this.getItems(collection), (item: any) => {
+                return item.id != null && item.id.toString() === id;
+            }) || null;
+        }
+
+        /**
+         * Used to check the given item against the required properties and validation function of
+         * the given collection.
+         * 
+         * @param collection The collection that the item belongs to.
+         * @param item The item as it will be stored.
+         * @param items The other items of the collection.
+         * @returns A dictionary of property names to error messages, or null if the item is valid.
+         */
+        private validate(collection: Interfaces.MockCollection, item: any, items: any[]): { [property: string]: string } {
+            var errors: { [property: string]: string } = {};
+
+            _.each(collection.required || [], (property: string) => {
+                var value = item[property];
+
+                if (value == null || (typeof (value) === "string" && !value.trim())) {
+                    errors[property] = this.Utilities.format("The {0} field is required.", property);
+                }
+            });
+
+            if (_.isEmpty(errors) && collection.validate) {
+                angular.extend(errors, collection.validate(item, items));
+            }
+
+            return _.isEmpty(errors) ? null : errors;
+        }
+
+        /**
+         * Used to build a 422 response for the given validation errors. The message describes all
+         * of the errors, so it can be shown to the user as-is.
+         */
+        private createValidationError(errors: { [property: string]: string }): Interfaces.MockResponse {
+            var response: DataTypes.ValidationErrorResponse = {
+                message: _.values(errors).join(" "),
+                errors: errors
+            };
+
+            return { status: 422, data: response };
+        }
+
+        /**
+         * Used to parse a whole number from the given query string value.
+         * 
+         * @returns The number, the given default if the value wasn't provided, or null if it isn't a whole number.
+         */
+        private parseInteger(value: any, defaultValue: number): number {
+
+            if (value == null || value === "") {
+                return defaultValue;
+            }
+
+            return /^\d+$/.test(value) ? parseInt(value, 10) : null;
+        }
+
+        /**
+         * Used to get the items of the given collection, seeding them from its fixture if the
+         * collection hasn't been used yet (or was reset).
+         * 
+         * @param collection The collection.
+         * @returns The items, which may be changed in-place (followed by a call to save()).
+         */
+        private getItems(collection: Interfaces.MockCollection): any[] {
+
+            if (!this.data) {
+                this.data = this.load();
+            }
+
+            if (!this.data[collection.name]) {
+                this.data[collection.name] = collection.fixture ? this.MockRouter.getFixture(collection.fixture) : [];
+            }
+
+            return this.data[collection.name];
+        }
+
+        /**
+         * Used to read the items of the collections from local storage.
+         * 
+         * @returns A dictionary of collection names to items.
+         */
+        private load(): { [collectionName: string]: any[] } {
+            var json = localStorage.getItem(MockBackend.STORAGE_KEY);
+
+            if (!json) {
+                return {};
+            }
+
+            try {
+                return JSON.parse(json) || {};
+            } catch (exception) {
+                console.warn("Unable to parse the persisted mock data; it will be seeded again.", exception);
+                return {};
+            }
+        }
+
+        /**
+         * Used to write the items of the collections to local storage.
+         */
+        private save(): void {
+            try {
+                localStorage.setItem(MockBackend.STORAGE_KEY, JSON.stringify(this.data));
+            } catch (exception) {
+                console.warn("Unable to persist the mock data; it will be kept in-memory only.", exception);
+            }
+        }
+
+        //#endregion
+    }
+}
\ No newline at end of file
@@ -0,0 +1,282 @@
+﻿module JustinCredible.SampleApp.Services {
+
+    /**
+     * Responds to API requests with mocked responses when they are mocked (ie via the development
+     * tools or the local mock environment).
+     * 
+     * Each mocked endpoint is described by an Interfaces.MockRoute, which matches requests by
+     * method and URL (with placeholders for path parameters, eg ~/categories/:id) and provides
+     * the status, headers, and body of the response, either directly, from a JSON fixture, or
+     * from a function of the request. The routes declared in Services.MockRoutes and any that
+     * are registered via register() are wired into the $httpBackend provided by ngMockE2E.
+     * 
+     * API URLs (those that start with a tilde) are matched against the URL of the request
+     * relative to the base URL of the current environment, so the same mocks work for any
+     * environment.
+     */
+    export class MockRouter {
+
+        public static $inject = ["$httpBackend", "$injector", "Utilities", "ApiEnvironments"];
+
+        /**
+         * The folder that fixtures are loaded from, relative to index.html.
+         */
+        private static FIXTURES_PATH = "fixtures/";
+
+        private $httpBackend: ng.IHttpBackendService;
+        private $injector: ng.auto.IInjectorService;
+        private Utilities: Utilities;
+        private ApiEnvironments: ApiEnvironments;
+
+        private routes: Interfaces.MockRoute[];
+        private isInstalled: boolean;
+        private fixtures: { [name: string]: string };
+
+        constructor($httpBackend: ng.IHttpBackendService, $injector: ng.auto.IInjectorService, Utilities: Utilities, ApiEnvironments: ApiEnvironments) {
+            this.$httpBackend = $httpBackend;
+            this.$injector = $injector;
+            this.Utilities = Utilities;
+            this.ApiEnvironments = ApiEnvironments;
+
+            this.routes = [];
+            this.isInstalled = false;
+            this.fixtures = {};
+        }
+
+        //#region Public API
+
+        /**
+         * Used to add the given mocked endpoint. If the routes have already been installed, it is
+         * wired into the $httpBackend immediately.
+         * 
+         * Routes are matched in the order that they are added, so a route can't override one
+         * that was added before it.
+         * 
+         * @param route The mocked endpoint to add.
+         */
+        public register(route: Interfaces.MockRoute): void {
+
+            if (!route || !route.method || !route.url) {
+                throw new Error("A mock route requires a method and a URL.");
+            }
+
+            this.routes.push(route);
+
+            if (this.isInstalled) {
+                this.install(route);
+            }
+        }
+
+        /**
+         * Used to get the routes that have been added.
+         * 
+         * @returns The routes declared in Services.MockRoutes followed by those that were registered.
+         */
+        public getRoutes(): Interfaces.MockRoute[] {
+            return MockRoutes.routes.concat(this.routes);
+        }
+
+        /**
+         * Used to wire all of the routes into the $httpBackend. This should only be called once
+         * (see MockApis.mockHttpCalls); routes that are registered afterwards are wired in as
+         * they are added.
+         */
+        public installRoutes(): void {
+
+            if (this.isInstalled) {
+                return;
+            }
+
+            this.isInstalled = true;
+
+            _.each(this.getRoutes(), (route: Interfaces.MockRoute) => {
+                this.install(route);
+            });
+        }
+
+        /**
+         * Used to get the contents of the given fixture. Fixtures are loaded synchronously, since
+         * the mocked $httpBackend requires responses to be returned synchronously, and are kept in
+         * memory once they have been loaded.
+         * 
+         * @param name The name of the JSON file under the fixtures folder.
+         * @returns The parsed contents of the fixture.
+         */
+        public getFixture(name: string): any {
+            var xhr: XMLHttpRequest;
+
+            if (!this.fixtures[name]) {
+                xhr = new XMLHttpRequest();
+                xhr.open("GET", MockRouter.FIXTURES_PATH + name.replace(/^\//, ""), false);
+                xhr.send();
+
+                // Files loaded from the device's file system report a status of 0.
+                if ((xhr.status !== 200 && xhr.status !== 0) || !xhr.responseText) {
+                    throw new Error(this.Utilities.format("The fixture '{0}' could not be loaded.", name));
+                }
+
+                this.fixtures[name] = xhr.responseText;
+            }
+
+            return JSON.parse(this.fixtures[name]);
+        }
+
+        //#endregion
+
+        //#region Private Helper Methods
+
+        /**
+         * Used to wire the given route into the $httpBackend.
+         * 
+         * @param route The route to wire in.
+         */
+        private install(route: Interfaces.MockRoute): void {
+            var pattern = this.createPattern(route.url),
+                matcher: any;
+
+            // The mocked $httpBackend accepts any object with a test method as the URL.
+            matcher = {
+                test: (url: string) => {
+                    return this.match(route, pattern, url) != null;
+                }
+            };
+
+            this.$httpBackend.when(route.method.toUpperCase(), <RegExp>matcher).respond((method: string, url: string, data: string, headers: { [name: string]: string }) => {
+                return this.respond(route, this.createRequest(route, pattern, method, url, data, headers));
+            });
+        }
+
+        /**
+         * Used to build a regular expression for the given route URL. Each placeholder (eg :id)
+         * matches a single path segment.
+         * 
+         * @param url The URL of a route (eg ~/categories/:id).
+         * @returns The regular expression, which captures the value of each placeholder.
+         */
+        private createPattern(url: string): RegExp {
+            var source: string;
+
+            source = _.map(url.split(/(:\w+)/), (part: string) => {
+                return /^:\w+$/.test(part) ? "([^/?#]+)" : part.replace(/[\-\[\]\/\{\}\(\)\*\+\?\.\\\^\$\|]/g, "\\$&");
+            }).join("");
+
+            return new RegExp("^" + source + "\\/?$");
+        }
+
+        /**
+         * Used to determine if the given URL matches the given route.
+         * 
+         * @param route The route.
+         * @param pattern The regular expression for the URL of the route; see createPattern().
+         * @param url The full URL of a request.
+         * @returns The captured values of the placeholders, or null if the URL doesn't match.
+         */
+        private match(route: Interfaces.MockRoute, pattern: RegExp, url: string): string[] {
+            var environment: Interfaces.ApiEnvironment,
+                baseUrl: string,
+                path = url.split(/[?#]/)[0],
+                matches: RegExpExecArray;
+
+            // API URLs are relative to the base URL of the current environment.
+            if (this.Utilities.startsWith(route.url, "~")) {
+                environment = this.ApiEnvironments.getCurrent();
+                baseUrl = environment && environment.baseUrl ? environment.baseUrl.replace(/\/$/, "") : null;
+
+                if (!baseUrl || (path !== baseUrl && !this.Utilities.startsWith(path, baseUrl + "/"))) {
+                    return null;
+                }
+
+                path = "~" + path.substr(baseUrl.length);
+            }
+
+            matches = pattern.exec(path);
+
+            return matches ? matches.slice(1) : null;
+        }
+
+        /**
+         * Used to describe the given request for the respond function of a route.
+         * 
+         * @returns The request, including the values of its path and query parameters.
+         */
+        private createRequest(route: Interfaces.MockRoute, pattern: RegExp, method: string, url: string, body: string, headers: { [name: string]: string }): Interfaces.MockRequest {
+            var request: Interfaces.MockRequest,
+                names: string[],
+                values: string[],
+                queryIndex = url.indexOf("?");
+
+            names = _.map(route.url.match(/:\w+/g) || [], (placeholder: string) => {
+                return placeholder.substr(1);
+            });
+
+            values = this.match(route, pattern, url) || [];
+
+            request = {
+                method: method,
+                url: url,
+                params: {},
+                query: queryIndex === -1 ? {} : <{ [name: string]: any }>URI.parseQuery(url.substr(queryIndex).split("#")[0]),
+                headers: headers || {},
+                body: body,
+                data: null
+            };
+
+            _.each(names, (name: string, index: number) => {
+                request.params[name] = values[index] == null ? null : decodeURIComponent(values[index]);
+            });
+
+            if (typeof (body) === "string" && body) {
+                try {
+                    request.data = JSON.parse(body);
+                } catch (exception) {
+                    request.data = null;
+                }
+            }
+
+            return request;
+        }
+
+        /**
+         * Used to build the response to the given request.
+         * 
+         * @param route The route that matched the request.
+         * @param request The request.
+         * @returns The status, body, and headers of the response in the form the mocked $httpBackend expects.
+         */
+        private respond(route: Interfaces.MockRoute, request: Interfaces.MockRequest): any[] {
+            var response: Interfaces.MockResponse,
+                status: number,
+                headers: { [name: string]: string },
+                data: any;
+
+            try {
+                response = route.respond ? route.respond(request, this.$injector) : {};
+
+                if (response == null) {
+                    return [404, { message: "The requested item could not be found." }, { "Content-Type": "application/json" }];
+                }
+
+                status = response.status != null ? response.status : route.status != null ? route.status : 200;
+                headers = angular.extend({ "Content-Type": "application/json" }, route.headers, response.headers);
+
+                if (typeof (response.data) !== "undefined") {
+                    data = response.data;
+                }
+                else if (response.fixture || route.fixture) {
+                    data = this.getFixture(response.fixture || route.fixture);
+                }
+                else {
+                    data = route.data;
+                }
+            } catch (exception) {
+                console.error(this.Utilities.format("MockRouter: The mock for {0} {1} failed.", route.method, route.url), exception);
+                return [500, { message: exception && exception.message ? exception.message : "The mock failed." }, { "Content-Type": "application/json" }];
+            }
+
+            // Copy the data so that changes made by the caller don't affect later responses.
+            return [status, angular.copy(data), headers];
+        }
+
+        //#endregion
+    }
+}
\ No newline at end of file
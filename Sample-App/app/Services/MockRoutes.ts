@@ -0,0 +1,103 @@
+﻿module JustinCredible.SampleApp.Services {
+
+    /**
+     * Declares the mocked API endpoints that respond to API requests when they are mocked (ie
+     * via the development tools or the local mock environment); see Services.MockRouter.
+     * 
+     * To add a mock, add an Interfaces.MockRoute for it here. Static responses can be placed in
+     * a JSON file under the fixtures folder and referenced via the fixture property. Mocks can
+     * also be added at runtime via MockRouter.register().
+     * 
+     * Resources that should behave like a real REST API (ie changes are kept between requests)
+     * can be added as an Interfaces.MockCollection instead; see Services.MockBackend.
+     */
+    export class MockRoutes {
+
+        public static routes: Interfaces.MockRoute[] = [
+
+            // Look up the details of a token.
+            {
+                method: "GET",
+                url: "~/tokens/:token",
+                fixture: "tokens/get.json"
+            },
+
+            // Sign in with any user ID and password and issue a token that expires in an hour.
+            {
+                method: "POST",
+                url: "~/tokens",
+                respond: (request: Interfaces.MockRequest, $injector: ng.auto.IInjectorService): Interfaces.MockResponse => {
+                    var Utilities: Utilities = $injector.get("Utilities"),
+                        tokenCreateRequest: DataTypes.TokenCreateRequest = request.data,
+                        response: DataTypes.TokenResponse;
+
+                    if (!tokenCreateRequest || !tokenCreateRequest.userId || !tokenCreateRequest.password) {
+                        return { status: 401, data: { message: "The user ID or password is incorrect." } };
+                    }
+
+                    response = {
+                        token: Utilities.generateGuid(),
+                        expires: moment().add(1, "hours").valueOf()
+                    };
+
+                    return { status: 201, data: response };
+                }
+            },
+
+            // Exchange the current token for a new one that expires in an hour.
+            {
+                method: "POST",
+                url: "~/tokens/refresh",
+                respond: (request: Interfaces.MockRequest, $injector: ng.auto.IInjectorService) => {
+                    var Utilities: Utilities = $injector.get("Utilities"),
+                        response: DataTypes.TokenResponse;
+
+                    response = {
+                        token: Utilities.generateGuid(),
+                        expires: moment().add(1, "hours").valueOf()
+                    };
+
+                    return { data: response };
+                }
+            },
+
+            // Accept log uploads from the LogShipper and report how many were received.
+            {
+                method: "POST",
+                url: "~/logs",
+                respond: (request: Interfaces.MockRequest) => {
+                    var logUploadRequest: DataTypes.LogUploadRequest = request.data,
+                        response: DataTypes.LogUploadResponse;
+
+                    response = {
+                        accepted: logUploadRequest && logUploadRequest.entries ? logUploadRequest.entries.length : 0
+                    };
+
+                    return { data: response };
+                }
+            }
+        ];
+
+        public static collections: Interfaces.MockCollection[] = [
+            {
+                name: "categories",
+                url: "~/categories",
+                fixture: "categories.json",
+                required: ["name"],
+                validate: (category: DataTypes.Category, categories: DataTypes.Category[]): { [property: string]: string } => {
+                    var isDuplicate: boolean;
+
+                    if (typeof (category.name) !== "string") {
+                        return { name: "The name must be text." };
+                    }
+
+                    isDuplicate = _.any(categories, (other: DataTypes.Category) => {
+                        return typeof (other.name) === "string" && other.name.toLowerCase() === category.name.toLowerCase();
+                    });
+
+                    return isDuplicate ? { name: "A category with this name already exists." } : null;
+                }
+            }
+        ];
+    }
+}
\ No newline at end of file
@@ -10,8 +10,11 @@
 
         public static $inject = [];
 
+        private static API_ENVIRONMENT = "API_ENVIRONMENT";
         private static USER_ID = "USER_ID";
         private static TOKEN = "TOKEN";
+        private static TOKEN_EXPIRES_AT = "TOKEN_EXPIRES_AT";
+        private static REFRESH_TOKEN = "REFRESH_TOKEN";
         private static ENABLE_DEVELOPER_TOOLS = "ENABLE_DEVELOPER_TOOLS";
         private static ENABLE_FULL_HTTP_LOGGING = "ENABLE_FULL_HTTP_LOGGING";
         private static ENABLE_MOCK_HTTP_CALLS = "ENABLE_MOCK_HTTP_CALLS";
@@ -23,9 +26,17 @@
         // Default setting is 10 minutes.
         private static REQUIRE_PIN_THRESHOLD_DEFAULT = 10;
 
-        get apiUrl(): string {
-            //return localStorage.getItem(Preferences.API_URL);
-            return "sample-app.justin-credible.net/api";
+        get apiEnvironment(): string {
+            return localStorage.getItem(Preferences.API_ENVIRONMENT);
+        }
+
+        set apiEnvironment(value: string) {
+            if (value == null) {
+                localStorage.removeItem(Preferences.API_ENVIRONMENT);
+            }
+            else {
+                localStorage.setItem(Preferences.API_ENVIRONMENT, value);
+            }
         }
 
         get userId(): string {
@@ -54,6 +65,36 @@
             }
         }
 
+        get tokenExpiresAt(): Moment {
+            var tokenExpiresAt: string;
+
+            tokenExpiresAt = localStorage.getItem(Preferences.TOKEN_EXPIRES_AT);
+
+            return moment(tokenExpiresAt).isValid() ? moment(tokenExpiresAt) : null;
+        }
+
+        set tokenExpiresAt(value: Moment) {
+            if (value == null) {
+                localStorage.removeItem(Preferences.TOKEN_EXPIRES_AT);
+            }
+            else {
+                localStorage.setItem(Preferences.TOKEN_EXPIRES_AT, moment(value).format());
+            }
+        }
+
+        get refreshToken(): string {
+            return localStorage.getItem(Preferences.REFRESH_TOKEN);
+        }
+
+        set refreshToken(value: string) {
+            if (value == null) {
+                localStorage.removeItem(Preferences.REFRESH_TOKEN);
+            }
+            else {
+                localStorage.setItem(Preferences.REFRESH_TOKEN, value);
+            }
+        }
+
         get enableDeveloperTools(): boolean {
             return sessionStorage.getItem(Preferences.ENABLE_DEVELOPER_TOOLS) === "true";
         }
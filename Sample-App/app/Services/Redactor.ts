@@ -0,0 +1,188 @@
+﻿module JustinCredible.SampleApp.Services {
+
+    /**
+     * Provides a way to remove sensitive data (eg authorization headers, tokens, and PINs)
+     * from values before they are written to the logs.
+     * 
+     * The values that are redacted are configured via the redaction section of the logger
+     * configuration (see Interfaces.RedactionConfig).
+     */
+    export class Redactor {
+
+        public static $inject = ["loggerConfig"];
+
+        private config: Interfaces.RedactionConfig;
+
+        constructor(loggerConfig: Interfaces.LoggerConfig) {
+            this.config = loggerConfig.redaction;
+        }
+
+        //#region Public API
+
+        /**
+         * Used to get the value that redacted values are replaced with.
+         * 
+         * @returns The replacement value (eg [REDACTED]).
+         */
+        public getReplacement(): string {
+            return this.config.replacement;
+        }
+
+        /**
+         * Used to redact the values of the configured headers. Header names are not case sensitive.
+         * 
+         * @param headers A dictionary of header names to values.
+         * @returns A copy of the given headers with sensitive values replaced.
+         */
+        public redactHeaders(headers: { [name: string]: any }): { [name: string]: any } {
+            var redactedHeaders: { [name: string]: any } = {},
+                headerNames: string[];
+
+            if (!headers || !this.config) {
+                return headers;
+            }
+
+            headerNames = _.map(this.config.headers, (headerName: string) => {
+                return headerName.toLowerCase();
+            });
+
+            _.each(headers, (value: any, name: string) => {
+                if (_.contains(headerNames, name.toLowerCase())) {
+                    redactedHeaders[name] = this.config.replacement;
+                }
+                else if (typeof (value) === "string") {
+                    redactedHeaders[name] = this.redactText(value);
+                }
+                else {
+                    redactedHeaders[name] = value;
+                }
+            });
+
+            return redactedHeaders;
+        }
+
+        /**
+         * Used to redact the values at the configured body paths of the given object. The
+         * object is not modified; a redacted copy is returned instead.
+         * 
+         * @param data The object to redact.
+         * @returns A redacted copy of the given object.
+         */
+        public redactObject(data: any): any {
+            var redactedData: any;
+
+            if (data == null || typeof (data) !== "object" || !this.config) {
+                return data;
+            }
+
+            redactedData = _.cloneDeep(data);
+
+            _.each(this.config.bodyPaths, (path: string) => {
+                this.redactPath(redactedData, path.split("."));
+            });
+
+            return redactedData;
+        }
+
+        /**
+         * Used to redact a request or response body. String bodies containing JSON are parsed
+         * so that the body paths can be applied. The configured patterns are then applied to
+         * the serialized result.
+         * 
+         * @param body The body to redact; either a string or an object.
+         * @returns The redacted body as a string.
+         */
+        public redactBody(body: any): string {
+            var data: any;
+
+            if (body == null) {
+                return body;
+            }
+
+            data = body;
+
+            if (typeof (body) === "string") {
+                try {
+                    data = JSON.parse(body);
+                } catch (exception) {
+                    // The body isn't JSON, so only the patterns can be applied.
+                    return this.redactText(body);
+                }
+            }
+
+            return this.redactText(JSON.stringify(this.redactObject(data)));
+        }
+
+        /**
+         * Used to apply the configured patterns to the given text.
+         * 
+         * @param text The text to redact.
+         * @returns The text with any matches replaced.
+         */
+        public redactText(text: string): string {
+
+            if (!text || !this.config) {
+                return text;
+            }
+
+            _.each(this.config.patterns, (pattern: Interfaces.RedactionPattern) => {
+                text = text.replace(pattern.pattern, pattern.replacement);
+            });
+
+            return text;
+        }
+
+        //#endregion
+
+        //#region Private Helper Methods
+
+        /**
+         * Replaces the values in the given object which match the given path segments.
+         * 
+         * A segment of "*" matches any property (or array index) and a segment of "**"
+         * matches any number of levels, including none.
+         * 
+         * @param target The object to modify.
+         * @param segments The remaining segments of the path.
+         */
+        private redactPath(target: any, segments: string[]): void {
+            var segment: string,
+                remaining: string[];
+
+            if (target == null || typeof (target) !== "object" || segments.length === 0) {
+                return;
+            }
+
+            segment = segments[0];
+            remaining = segments.slice(1);
+
+            if (segment === "**") {
+
+                // Match the rest of the path at this level as well as every level below it.
+                this.redactPath(target, remaining);
+
+                _.each(_.keys(target), (key: string) => {
+                    this.redactPath(target[key], segments);
+                });
+
+                return;
+            }
+
+            _.each(_.keys(target), (key: string) => {
+
+                if (segment !== "*" && segment.toLowerCase() !== key.toLowerCase()) {
+                    return;
+                }
+
+                if (remaining.length === 0) {
+                    target[key] = this.config.replacement;
+                }
+                else {
+                    this.redactPath(target[key], remaining);
+                }
+            });
+        }
+
+        //#endregion
+    }
+}
\ No newline at end of file
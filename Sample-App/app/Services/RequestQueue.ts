@@ -0,0 +1,338 @@
+﻿module JustinCredible.SampleApp.Services {
+
+    /**
+     * Provides an outbox for mutating API requests (eg POST, PUT, and DELETE) that could not
+     * be sent because the device was offline.
+     * 
+     * Requests opt in via the queueable flag on Interfaces.RequestConfig. When one of these
+     * requests fails without reaching the server, the HttpInterceptor adds it to this queue,
+     * which is persisted to local storage so it survives the application being closed. The
+     * queued requests are sent again, in the order they were made, once the device is back
+     * online.
+     * 
+     * Whenever the queue changes, the requestQueue.changed event is broadcast on the root scope.
+     */
+    export class RequestQueue {
+
+        public static $inject = ["$rootScope", "$injector", "$q", "Utilities", "Logger"];
+
+        /**
+         * The local storage key that the queue is persisted under.
+         */
+        private static STORAGE_KEY = "REQUEST_QUEUE";
+
+        private $rootScope: ng.IRootScopeService;
+        private $injector: ng.auto.IInjectorService;
+        private $q: ng.IQService;
+        private Utilities: Utilities;
+        private Logger: Logger;
+
+        private requests: Models.QueuedRequest[];
+        private isStarted: boolean;
+        private isFlushing: boolean;
+
+        constructor($rootScope: ng.IRootScopeService, $injector: ng.auto.IInjectorService, $q: ng.IQService, Utilities: Utilities, Logger: Logger) {
+            this.$rootScope = $rootScope;
+            this.$injector = $injector;
+            this.$q = $q;
+            this.Utilities = Utilities;
+            this.Logger = Logger;
+
+            this.isStarted = false;
+            this.isFlushing = false;
+
+            this.requests = this.load();
+        }
+
+        //#region Public API
+
+        /**
+         * Used to begin sending queued requests whenever the device comes back online. Any
+         * requests that were queued during a previous session are sent immediately.
+         */
+        public start(): void {
+
+            if (this.isStarted) {
+                return;
+            }
+
+            this.isStarted = true;
+
+            document.addEventListener("online", _.bind(this.document_online, this), false);
+
+            this.flush();
+        }
+
+        /**
+         * Used to add the given request to the end of the queue. Only the method, URL, query
+         * parameters, and body are kept; the headers and credentials are applied again by the
+         * HttpInterceptor when the request is sent.
+         * 
+         * @param config The configuration of the request to queue.
+         * @returns The queued request.
+         */
+        public enqueue(config: Interfaces.RequestConfig): Models.QueuedRequest {
+            var request = new Models.QueuedRequest();
+
+            request.id = this.Utilities.generateGuid();
+            request.createdAt = new Date();
+            request.status = Models.QueuedRequestStatus.Pending;
+            request.method = config.method.toUpperCase();
+            request.url = config.originalUrl || config.url;
+            request.params = config.params;
+            request.data = config.data;
+            request.attempts = 0;
+            request.lastAttemptAt = null;
+            request.lastError = null;
+
+            this.requests.push(request);
+            this.save();
+
+            this.Logger.info(this.Utilities.format("Queued {0} {1} to be sent once the device is online.", request.method, request.url), { queuedRequestId: request.id });
+
+            this.$rootScope.$broadcast("requestQueue.queued", request);
+
+            return request;
+        }
+
+        /**
+         * Used to get the requests that are currently in the queue, oldest first.
+         * 
+         * @returns A copy of the queued requests.
+         */
+        public getRequests(): Models.QueuedRequest[] {
+            return _.cloneDeep(this.requests);
+        }
+
+        /**
+         * Used to get the number of requests that are waiting to be sent.
+         * 
+         * @returns The number of pending requests.
+         */
+        public getPendingCount(): number {
+            return _.where(this.requests, { status: Models.QueuedRequestStatus.Pending }).length;
+        }
+
+        /**
+         * Used to send the pending requests in the order they were queued.
+         * 
+         * Requests the server accepts are removed from the queue. Requests the server rejects
+         * are marked as failed and are not sent again automatically. If the server can't be
+         * reached, the request is left pending and sending stops so the order is preserved.
+         * 
+         * @param includeFailed True to also re-send the requests that previously failed.
+         * @returns A promise that resolves with the number of requests that were sent.
+         */
+        public flush(includeFailed?: boolean): ng.IPromise<number> {
+            var q = this.$q.defer<number>();
+
+            // Ensure we don't send the same request twice by running concurrently.
+            if (this.isFlushing) {
+                q.resolve(0);
+                return q.promise;
+            }
+
+            // There's no point in trying if we know that we can't reach the server.
+            if (this.isOffline()) {
+                q.reject(new Error("Queued requests cannot be sent because the device is offline."));
+                return q.promise;
+            }
+
+            if (includeFailed) {
+                _.each(_.where(this.requests, { status: Models.QueuedRequestStatus.Failed }), (request: Models.QueuedRequest) => {
+                    request.status = Models.QueuedRequestStatus.Pending;
+                });
+
+                this.save();
+            }
+
+            this.isFlushing = true;
+
+            this.sendNext(0).then((sentCount: number) => {
+                this.isFlushing = false;
+                q.resolve(sentCount);
+            }, (error: any) => {
+                this.isFlushing = false;
+                q.reject(error);
+            });
+
+            return q.promise;
+        }
+
+        /**
+         * Used to remove the given request from the queue without sending it.
+         * 
+         * @param id The ID of the queued request to remove.
+         */
+        public remove(id: string): void {
+
+            this.requests = _.reject(this.requests, (request: Models.QueuedRequest) => {
+                return request.id === id && request.status !== Models.QueuedRequestStatus.Sending;
+            });
+
+            this.save();
+        }
+
+        /**
+         * Used to remove all of the requests from the queue (except for any that are currently
+         * being sent) without sending them.
+         */
+        public clear(): void {
+            this.requests = _.where(this.requests, { status: Models.QueuedRequestStatus.Sending });
+            this.save();
+        }
+
+        /**
+         * Used to determine if the device is known to not have a network connection.
+         * 
+         * @returns True if the Network Information plugin reports that there is no connection.
+         */
+        public isOffline(): boolean {
+            return !!navigator.connection
+                && typeof(Connection) !== "undefined"
+                && navigator.connection.type === Connection.NONE;
+        }
+
+        //#endregion
+
+        //#region Event Handlers
+
+        private document_online(): void {
+
+            // This event occurs outside of Angular, so the requests need a digest cycle to go out.
+            this.$rootScope.$apply(() => {
+                this.flush();
+            });
+        }
+
+        //#endregion
+
+        //#region Private Helper Methods
+
+        /**
+         * Sends the oldest pending request and then continues with the next one until there
+         * are no pending requests left.
+         * 
+         * @param sentCount The number of requests that have been sent so far.
+         * @returns A promise that resolves with the total number of requests that were sent.
+         */
+        private sendNext(sentCount: number): ng.IPromise<number> {
+            var q = this.$q.defer<number>(),
+                request: Models.QueuedRequest,
+                httpConfig: Interfaces.RequestConfig,
+                $http: ng.IHttpService;
+
+            request = _.find(this.requests, { status: Models.QueuedRequestStatus.Pending });
+
+            if (!request) {
+                q.resolve(sentCount);
+                return q.promise;
+            }
+
+            request.status = Models.QueuedRequestStatus.Sending;
+            request.attempts += 1;
+            request.lastAttemptAt = new Date();
+            this.save();
+
+            httpConfig = {
+                method: request.method,
+                url: request.url,
+                params: request.params,
+                data: request.data,
+                blocking: false,
+                showSpinner: false,
+                queuedRequestId: request.id
+            };
+
+            // The $http service can't be injected directly, since the HttpInterceptor depends on this service.
+            $http = this.$injector.get("$http");
+
+            $http(httpConfig).then(() => {
+
+                this.requests = _.without(this.requests, request);
+                this.save();
+
+                this.sendNext(sentCount + 1).then((count: number) => {
+                    q.resolve(count);
+                }, (error: any) => {
+                    q.reject(error);
+                });
+
+            }, (httpResponse: ng.IHttpPromiseCallbackArg<any>) => {
+
+                // A status of zero means the server couldn't be reached, so leave the request
+                // at the front of the queue and try again later.
+                if (httpResponse.status === 0) {
+                    request.status = Models.QueuedRequestStatus.Pending;
+                    request.lastError = "The server could not be reached.";
+                    this.save();
+
+                    q.reject(new Error("Queued requests cannot be sent because the server could not be reached."));
+                    return;
+                }
+
+                request.status = Models.QueuedRequestStatus.Failed;
+                request.lastError = this.Utilities.format("{0} {1}", httpResponse.status, httpResponse.statusText || "");
+                this.save();
+
+                this.Logger.warn(this.Utilities.format("The queued request {0} {1} was rejected by the server.", request.method, request.url), null, { queuedRequestId: request.id, status: httpResponse.status });
+
+                this.sendNext(sentCount + 1).then((count: number) => {
+                    q.resolve(count);
+                }, (error: any) => {
+                    q.reject(error);
+                });
+            });
+
+            return q.promise;
+        }
+
+        /**
+         * Used to read the queue from local storage. Any requests that were being sent when the
+         * application was closed are considered pending again.
+         * 
+         * @returns The queued requests.
+         */
+        private load(): Models.QueuedRequest[] {
+            var json = localStorage.getItem(RequestQueue.STORAGE_KEY),
+                requests: Models.QueuedRequest[];
+
+            if (!json) {
+                return [];
+            }
+
+            try {
+                requests = JSON.parse(json);
+            } catch (exception) {
+                console.warn("Unable to parse the persisted request queue; it will be discarded.", exception);
+                return [];
+            }
+
+            _.each(requests, (request: Models.QueuedRequest) => {
+                if (request.status === Models.QueuedRequestStatus.Sending) {
+                    request.status = Models.QueuedRequestStatus.Pending;
+                }
+            });
+
+            return requests;
+        }
+
+        /**
+         * Used to write the queue to local storage and notify the rest of the application that
+         * it has changed.
+         */
+        private save(): void {
+
+            if (this.requests.length === 0) {
+                localStorage.removeItem(RequestQueue.STORAGE_KEY);
+            }
+            else {
+                localStorage.setItem(RequestQueue.STORAGE_KEY, JSON.stringify(this.requests));
+            }
+
+            this.$rootScope.$broadcast("requestQueue.changed", this.getPendingCount());
+        }
+
+        //#endregion
+    }
+}
\ No newline at end of file
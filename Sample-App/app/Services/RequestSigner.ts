@@ -0,0 +1,365 @@
+﻿module JustinCredible.SampleApp.Services {
+
+    /**
+     * Signs API requests with an HMAC-SHA256 signature for the services that require one (eg the
+     * APIs of our partners).
+     * 
+     * Which requests are signed is configured per API environment; see Interfaces.RequestSigningConfig.
+     * The secret key of each environment is entered via the development tools and is stored in a
+     * file in the application's private data directory instead of localStorage, so it isn't
+     * readable by other scripts running in the web view.
+     * 
+     * The signature covers the method, path, timestamp, nonce, and the SHA-256 hash of the body
+     * of the request. The timestamp is adjusted by the difference between the device's clock and
+     * the server's (as reported by the Date header of its responses) so that requests aren't
+     * rejected as expired when the device's clock is wrong, and the nonce allows the server to
+     * reject requests that are replayed.
+     */
+    export class RequestSigner {
+
+        public static $inject = ["$q", "Utilities", "FileUtilities", "CryptoUtilities"];
+
+        /**
+         * The file that the keys are stored in, relative to the application's data directory.
+         */
+        private static KEYS_PATH = "/signing-keys.json";
+
+        /**
+         * Differences between the device's clock and the server's that are smaller than this
+         * are ignored, since the Date header only has a resolution of one second.
+         */
+        private static MIN_CLOCK_OFFSET_IN_MILLISECONDS = 1000;
+
+        private $q: ng.IQService;
+        private Utilities: Utilities;
+        private FileUtilities: FileUtilities;
+        private CryptoUtilities: CryptoUtilities;
+
+        private keysPromise: ng.IPromise<{ [environmentName: string]: string }>;
+        private clockOffsets: { [host: string]: number };
+
+        constructor($q: ng.IQService, Utilities: Utilities, FileUtilities: FileUtilities, CryptoUtilities: CryptoUtilities) {
+            this.$q = $q;
+            this.Utilities = Utilities;
+            this.FileUtilities = FileUtilities;
+            this.CryptoUtilities = CryptoUtilities;
+
+            this.keysPromise = null;
+            this.clockOffsets = {};
+        }
+
+        //#region Public API
+
+        /**
+         * Used to determine if the given API request should be signed.
+         * 
+         * @param config The configuration of the request; its base URL must already have been applied.
+         * @param environment The environment that the request is sent to.
+         * @returns True if the request should be signed.
+         */
+        public shouldSign(config: Interfaces.RequestConfig, environment: Interfaces.ApiEnvironment): boolean {
+            var url = config.originalUrl;
+
+            if (!url) {
+                return false;
+            }
+
+            if (config.sign) {
+                return true;
+            }
+
+            if (!environment || !environment.signing) {
+                return false;
+            }
+
+            return _.any(environment.signing.paths, (path: string) => {
+                path = path.replace(/\/$/, "");
+
+                return url === path
+                    || this.Utilities.startsWith(url, path + "/")
+                    || this.Utilities.startsWith(url, path + "?");
+            });
+        }
+
+        /**
+         * Used to sign the given request using the key of the given environment. The signature
+         * is added to the headers of the request:
+         * 
+         * X-Signature-Timestamp: The time of the request, in seconds since the epoch.
+         * X-Signature-Nonce: A random hex string that is unique to the request.
+         * X-Content-SHA256: The hex encoded SHA-256 hash of the body.
+         * X-Signature: keyId="...",algorithm="hmac-sha256",signature="..."
+         * 
+         * The signature is the Base64 encoded HMAC-SHA256 of the method, path (including the query
+         * string), timestamp, nonce, and body hash, separated by new lines. Any query parameters
+         * are moved into the URL so that the path which is signed is the one that is sent. The body
+         * is hashed as Angular's default request transform serializes it (ie as JSON); the bodies
+         * of uploads made via the FileUploader are hashed as if they were empty.
+         * 
+         * @param config The configuration of the request; its base URL must already have been applied.
+         * @param environment The environment that the request is sent to.
+         * @returns A promise of the signature, which is rejected with an Error if the request can't be signed.
+         */
+        public sign(config: Interfaces.RequestConfig, environment: Interfaces.ApiEnvironment): ng.IPromise<Models.RequestSignature> {
+            var q = this.$q.defer<Models.RequestSignature>();
+
+            if (!environment || !environment.signing) {
+                q.reject(new Error(this.Utilities.format("The request could not be signed because the {0} environment does not have a signing configuration.", environment ? environment.label : "current")));
+                return q.promise;
+            }
+
+            this.loadKeys().then((keys: { [environmentName: string]: string }) => {
+                var signature = new Models.RequestSignature(),
+                    key = keys[environment.name],
+                    uri: URI;
+
+                if (!key) {
+                    q.reject(new Error(this.Utilities.format("The request could not be signed because a signing key has not been stored for the {0} environment.", environment.label)));
+                    return;
+                }
+
+                this.moveParamsToUrl(config);
+                uri = new URI(config.url);
+
+                signature.keyId = environment.signing.keyId;
+                signature.clockOffsetInMilliseconds = this.getClockOffset(config.url);
+                signature.timestamp = Math.floor((Date.now() + signature.clockOffsetInMilliseconds) / 1000);
+                signature.nonce = this.CryptoUtilities.toHex(this.CryptoUtilities.getRandomBytes(16));
+                signature.bodyHash = this.CryptoUtilities.toHex(this.CryptoUtilities.sha256(this.getBody(config)));
+
+                signature.stringToSign = [
+                    config.method.toUpperCase(),
+                    uri.path() + uri.search(),
+                    signature.timestamp,
+                    signature.nonce,
+                    signature.bodyHash
+                ].join("\n");
+
+                signature.signature = this.CryptoUtilities.toBase64(this.CryptoUtilities.hmacSha256(this.CryptoUtilities.fromBase64(key), signature.stringToSign));
+
+                config.headers = config.headers || {};
+                config.headers["X-Signature-Timestamp"] = signature.timestamp.toString();
+                config.headers["X-Signature-Nonce"] = signature.nonce;
+                config.headers["X-Content-SHA256"] = signature.bodyHash;
+                config.headers["X-Signature"] = this.Utilities.format("keyId=\"{0}\",algorithm=\"hmac-sha256\",signature=\"{1}\"", signature.keyId, signature.signature);
+
+                q.resolve(signature);
+            }, q.reject);
+
+            return q.promise;
+        }
+
+        /**
+         * Used to keep track of the difference between the device's clock and the clock of the
+         * server that sent the given response, based on its Date header.
+         * 
+         * Note that for cross-origin requests, the server must include Date in the
+         * Access-Control-Expose-Headers header of its responses so that it can be read.
+         * 
+         * @param httpResponse The response of an API request.
+         */
+        public recordServerTime(httpResponse: ng.IHttpPromiseCallbackArg<any>): void {
+            var config = <Interfaces.RequestConfig>httpResponse.config,
+                date: string,
+                serverTime: number,
+                offset: number;
+
+            if (!config || !config.originalUrl || typeof (httpResponse.headers) !== "function") {
+                return;
+            }
+
+            date = httpResponse.headers("Date");
+            serverTime = date ? Date.parse(date) : NaN;
+
+            if (isNaN(serverTime)) {
+                return;
+            }
+
+            offset = serverTime - Date.now();
+
+            this.clockOffsets[new URI(config.url).host()] = Math.abs(offset) < RequestSigner.MIN_CLOCK_OFFSET_IN_MILLISECONDS ? 0 : offset;
+        }
+
+        /**
+         * Used to determine if the given request was signed using a clock offset that has since
+         * changed (ie the server's response showed that the device's clock is out of sync). If so,
+         * the server may have rejected the signature because its timestamp was out of range.
+         * 
+         * @param config The configuration of a signed request.
+         * @returns True if the request would be signed with a different timestamp now.
+         */
+        public isSignatureStale(config: Interfaces.RequestConfig): boolean {
+
+            if (!config.signature) {
+                return false;
+            }
+
+            return Math.abs(this.getClockOffset(config.url) - config.signature.clockOffsetInMilliseconds) >= RequestSigner.MIN_CLOCK_OFFSET_IN_MILLISECONDS;
+        }
+
+        /**
+         * Used to determine if a signing key has been stored for the given environment.
+         * 
+         * @param environmentName The name of the environment.
+         * @returns A promise of true if the environment has a key.
+         */
+        public hasKey(environmentName: string): ng.IPromise<boolean> {
+            return this.loadKeys().then((keys: { [environmentName: string]: string }) => {
+                return !!keys[environmentName];
+            });
+        }
+
+        /**
+         * Used to store the signing key for the given environment, replacing its existing key.
+         * 
+         * @param environmentName The name of the environment.
+         * @param key The Base64 encoded secret key.
+         * @returns A promise that is resolved once the key has been stored.
+         */
+        public setKey(environmentName: string, key: string): ng.IPromise<void> {
+
+            key = (key || "").trim();
+
+            if (!key || key.length % 4 !== 0 || !/^[A-Za-z0-9+\/]+={0,2}$/.test(key)) {
+                return this.$q.reject(new Error("The signing key must be Base64 encoded."));
+            }
+
+            return this.loadKeys().then((keys: { [environmentName: string]: string }) => {
+                keys[environmentName] = key;
+                return this.saveKeys(keys);
+            });
+        }
+
+        /**
+         * Used to remove the signing key of the given environment.
+         * 
+         * @param environmentName The name of the environment.
+         * @returns A promise that is resolved once the key has been removed.
+         */
+        public removeKey(environmentName: string): ng.IPromise<void> {
+            return this.loadKeys().then((keys: { [environmentName: string]: string }) => {
+                delete keys[environmentName];
+                return this.saveKeys(keys);
+            });
+        }
+
+        //#endregion
+
+        //#region Private Helper Methods
+
+        /**
+         * Used to get the stored keys, keyed by environment name. The keys are only read from
+         * disk once and are then kept in memory.
+         * 
+         * @returns A promise of the keys.
+         */
+        private loadKeys(): ng.IPromise<{ [environmentName: string]: string }> {
+            var q: ng.IDeferred<{ [environmentName: string]: string }>;
+
+            if (this.keysPromise) {
+                return this.keysPromise;
+            }
+
+            q = this.$q.defer<{ [environmentName: string]: string }>();
+
+            this.FileUtilities.fileExists(RequestSigner.KEYS_PATH, cordova.file.dataDirectory).then((exists: boolean) => {
+
+                if (!exists) {
+                    q.resolve({});
+                    return;
+                }
+
+                this.FileUtilities.readTextFile(RequestSigner.KEYS_PATH, cordova.file.dataDirectory).then((text: string) => {
+                    try {
+                        q.resolve(JSON.parse(text) || {});
+                    } catch (exception) {
+                        q.reject(exception);
+                    }
+                }, q.reject);
+
+            }, q.reject);
+
+            this.keysPromise = q.promise;
+
+            // If the keys couldn't be read, try again the next time they are needed.
+            this.keysPromise.then(null, () => {
+                this.keysPromise = null;
+            });
+
+            return this.keysPromise;
+        }
+
+        /**
+         * Used to write the given keys to disk.
+         * 
+         * @param keys The keys to store, keyed by environment name.
+         * @returns A promise that is resolved once the keys have been written.
+         */
+        private saveKeys(keys: { [environmentName: string]: string }): ng.IPromise<void> {
+            return this.FileUtilities.writeTextFile(RequestSigner.KEYS_PATH, JSON.stringify(keys), false, cordova.file.dataDirectory);
+        }
+
+        /**
+         * Used to get the difference between the clock of the server that the given URL belongs
+         * to and the device's clock.
+         * 
+         * @param url The absolute URL of a request.
+         * @returns The number of milliseconds that the server's clock is ahead of the device's.
+         */
+        private getClockOffset(url: string): number {
+            return this.clockOffsets[new URI(url).host()] || 0;
+        }
+
+        /**
+         * Used to get the body of the given request as it will be sent.
+         * 
+         * @param config The configuration of the request.
+         * @returns The body of the request, or an empty string if it doesn't have one.
+         */
+        private getBody(config: Interfaces.RequestConfig): string {
+
+            if (config.data == null || config.data instanceof Models.FileUpload) {
+                return "";
+            }
+
+            if (typeof (config.data) === "string") {
+                return config.data;
+            }
+
+            return angular.toJson(config.data);
+        }
+
+        /**
+         * Used to move the query parameters of the given request into its URL. Parameters are
+         * sorted by name, arrays are sent as repeated parameters, and null or undefined values
+         * are omitted (as Angular does when it builds the URL).
+         * 
+         * @param config The configuration of the request.
+         */
+        private moveParamsToUrl(config: Interfaces.RequestConfig): void {
+            var query: { [name: string]: string[] } = {};
+
+            if (!config.params) {
+                return;
+            }
+
+            _.each(_.keys(config.params).sort(), (name: string) => {
+                var values: any[] = _.isArray(config.params[name]) ? config.params[name] : [config.params[name]];
+
+                _.each(values, (value: any) => {
+                    if (value == null) {
+                        return;
+                    }
+
+                    query[name] = query[name] || [];
+                    query[name].push(_.isDate(value) ? (<Date>value).toISOString() : _.isObject(value) ? angular.toJson(value) : value + "");
+                });
+            });
+
+            config.url = new URI(config.url).addSearch(query).toString();
+            config.params = null;
+        }
+
+        //#endregion
+    }
+}
\ No newline at end of file
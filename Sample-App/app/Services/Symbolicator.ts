@@ -0,0 +1,327 @@
+﻿module JustinCredible.SampleApp.Services {
+
+    /**
+     * Describes a single decoded segment from the mappings of a source map. The values
+     * are all zero based.
+     */
+    interface ISourceMapping {
+        generatedColumn: number;
+        sourceIndex: number;
+        sourceLine: number;
+        sourceColumn: number;
+        nameIndex: number;
+    }
+
+    /**
+     * Describes a source map whose mappings have been decoded, grouped by generated line.
+     */
+    interface ISourceMap {
+        sources: string[];
+        names: string[];
+        lines: ISourceMapping[][];
+    }
+
+    /**
+     * Provides a way to map the frames of a stack trace from the compiled JavaScript files
+     * back to the TypeScript sources using the source maps produced by the build.
+     * 
+     * The source maps are bundled with the application, so this works offline. Note that
+     * source maps are only generated for debug builds.
+     */
+    export class Symbolicator {
+
+        public static $inject = ["$q", "$http"];
+
+        private static BASE64_CHARACTERS = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+        private $q: ng.IQService;
+        private $http: ng.IHttpService;
+
+        /**
+         * A cache of the source maps that have been loaded, keyed by JavaScript file URL.
+         * A promise resolved with null indicates that the file does not have a source map.
+         */
+        private sourceMaps: { [fileName: string]: ng.IPromise<ISourceMap> };
+
+        constructor($q: ng.IQService, $http: ng.IHttpService) {
+            this.$q = $q;
+            this.$http = $http;
+
+            this.sourceMaps = {};
+        }
+
+        //#region Public API
+
+        /**
+         * Used to map the given stack frames back to the TypeScript sources.
+         * 
+         * Frames that cannot be mapped (eg library code or missing source maps) are returned
+         * without the source fields populated.
+         * 
+         * @param frames The stack frames to symbolicate.
+         * @returns A promise that will be resolved with copies of the frames with the source fields populated.
+         */
+        public symbolicate(frames: Models.StackFrame[]): ng.IPromise<Models.StackFrame[]> {
+            var promises: ng.IPromise<Models.StackFrame>[];
+
+            promises = _.map(frames, (frame: Models.StackFrame) => {
+                return this.symbolicateFrame(frame);
+            });
+
+            return this.$q.all(promises);
+        }
+
+        //#endregion
+
+        //#region Private Helper Methods
+
+        private symbolicateFrame(frame: Models.StackFrame): ng.IPromise<Models.StackFrame> {
+            var q = this.$q.defer<Models.StackFrame>(),
+                symbolicatedFrame: Models.StackFrame;
+
+            symbolicatedFrame = <Models.StackFrame>_.clone(frame);
+
+            if (!frame.fileName || frame.lineNumber == null || frame.columnNumber == null) {
+                q.resolve(symbolicatedFrame);
+                return q.promise;
+            }
+
+            this.getSourceMap(frame.fileName).then((sourceMap: ISourceMap) => {
+                var mapping: ISourceMapping;
+
+                mapping = sourceMap ? this.findMapping(sourceMap, frame.lineNumber - 1, frame.columnNumber - 1) : null;
+
+                if (mapping) {
+                    symbolicatedFrame.sourceFileName = sourceMap.sources[mapping.sourceIndex];
+                    symbolicatedFrame.sourceLineNumber = mapping.sourceLine + 1;
+                    symbolicatedFrame.sourceColumnNumber = mapping.sourceColumn + 1;
+                    symbolicatedFrame.sourceFunctionName = mapping.nameIndex != null ? sourceMap.names[mapping.nameIndex] : null;
+                }
+
+                q.resolve(symbolicatedFrame);
+            });
+
+            return q.promise;
+        }
+
+        /**
+         * Used to load the source map for the given JavaScript file. The file is read to
+         * locate its sourceMappingURL comment, and then the source map itself is read.
+         * 
+         * @param fileName The URL of the JavaScript file.
+         * @returns A promise that will be resolved with the decoded source map, or null if there isn't one.
+         */
+        private getSourceMap(fileName: string): ng.IPromise<ISourceMap> {
+            var q: ng.IDeferred<ISourceMap>,
+                mapUrl: string;
+
+            if (this.sourceMaps[fileName]) {
+                return this.sourceMaps[fileName];
+            }
+
+            q = this.$q.defer<ISourceMap>();
+            this.sourceMaps[fileName] = q.promise;
+
+            this.getFile(fileName).then((script: string) => {
+                var match = /\/\/[#@] sourceMappingURL=(\S+)\s*$/.exec(script);
+
+                if (!match) {
+                    q.resolve(null);
+                    return;
+                }
+
+                mapUrl = new URI(match[1]).absoluteTo(fileName).toString();
+
+                this.getFile(mapUrl).then((json: string) => {
+                    try {
+                        q.resolve(this.parseSourceMap(JSON.parse(json), mapUrl));
+                    } catch (exception) {
+                        console.warn("Unable to parse the source map " + mapUrl, exception);
+                        q.resolve(null);
+                    }
+                }, () => {
+                    q.resolve(null);
+                });
+
+            }, () => {
+                q.resolve(null);
+            });
+
+            return q.promise;
+        }
+
+        /**
+         * Used to read the given file that is bundled with the application as text.
+         * 
+         * @param url The URL of the file to read.
+         * @returns A promise that will be resolved with the contents of the file.
+         */
+        private getFile(url: string): ng.IPromise<string> {
+            var q = this.$q.defer<string>(),
+                httpConfig: Interfaces.RequestConfig;
+
+            httpConfig = {
+                method: "GET",
+                url: url,
+                blocking: false,
+                showSpinner: false,
+                suppressLogging: true,
+
+                // Prevent Angular from parsing the source map for us; we always want the raw text.
+                transformResponse: (data: any) => {
+                    return data;
+                }
+            };
+
+            this.$http(httpConfig).then((response: ng.IHttpPromiseCallbackArg<string>) => {
+                q.resolve(response.data);
+            }, (error: any) => {
+                q.reject(error);
+            });
+
+            return q.promise;
+        }
+
+        /**
+         * Used to decode the given version 3 source map.
+         * 
+         * The source file paths are resolved relative to the application's root so they
+         * match the paths in the project (eg app/Services/Logger.ts).
+         * 
+         * @param rawSourceMap The parsed JSON of the source map.
+         * @param mapUrl The URL that the source map was loaded from.
+         * @returns The decoded source map.
+         */
+        private parseSourceMap(rawSourceMap: any, mapUrl: string): ISourceMap {
+            var baseUrl: string,
+                sourceRoot: string;
+
+            baseUrl = window.location.href.split("#")[0];
+            sourceRoot = rawSourceMap.sourceRoot || "";
+
+            if (sourceRoot && !/\/$/.test(sourceRoot)) {
+                sourceRoot += "/";
+            }
+
+            return {
+                sources: _.map(rawSourceMap.sources, (source: string) => {
+                    return new URI(sourceRoot + source).absoluteTo(mapUrl).relativeTo(baseUrl).toString();
+                }),
+                names: rawSourceMap.names || [],
+                lines: this.decodeMappings(rawSourceMap.mappings || "")
+            };
+        }
+
+        /**
+         * Used to decode the mappings field of a source map.
+         * 
+         * Each generated line is separated by a semicolon and each segment within a line by a
+         * comma. Each segment is a series of Base64 VLQ values that are relative to the values
+         * of the previous segment (the generated column resets at the start of each line).
+         * 
+         * @param mappings The encoded mappings.
+         * @returns The decoded segments, grouped by generated line.
+         */
+        private decodeMappings(mappings: string): ISourceMapping[][] {
+            var sourceIndex = 0,
+                sourceLine = 0,
+                sourceColumn = 0,
+                nameIndex = 0;
+
+            return _.map(mappings.split(";"), (line: string) => {
+                var generatedColumn = 0,
+                    segments: ISourceMapping[] = [];
+
+                line.split(",").forEach((encodedSegment: string) => {
+                    var values: number[];
+
+                    if (!encodedSegment) {
+                        return;
+                    }
+
+                    values = this.decodeVlq(encodedSegment);
+
+                    generatedColumn += values[0];
+
+                    // Segments with a single value don't map to a source location.
+                    if (values.length < 4) {
+                        return;
+                    }
+
+                    sourceIndex += values[1];
+                    sourceLine += values[2];
+                    sourceColumn += values[3];
+
+                    if (values.length > 4) {
+                        nameIndex += values[4];
+                    }
+
+                    segments.push({
+                        generatedColumn: generatedColumn,
+                        sourceIndex: sourceIndex,
+                        sourceLine: sourceLine,
+                        sourceColumn: sourceColumn,
+                        nameIndex: values.length > 4 ? nameIndex : null
+                    });
+                });
+
+                return segments;
+            });
+        }
+
+        /**
+         * Used to decode a series of Base64 VLQ encoded values.
+         * 
+         * @param encoded The encoded values.
+         * @returns The decoded values.
+         */
+        private decodeVlq(encoded: string): number[] {
+            var values: number[] = [],
+                value = 0,
+                shift = 0;
+
+            _.each(encoded.split(""), (character: string) => {
+                var digit = Symbolicator.BASE64_CHARACTERS.indexOf(character);
+
+                // Each digit holds 5 bits of the value; the 6th bit indicates that more digits follow.
+                // Arithmetic is used here instead of bitwise operators to satisfy the linter.
+                value += (digit % 32) * Math.pow(2, shift);
+
+                if (digit >= 32) {
+                    shift += 5;
+                }
+                else {
+                    // The least significant bit holds the sign.
+                    values.push(value % 2 === 1 ? -Math.floor(value / 2) : Math.floor(value / 2));
+                    value = 0;
+                    shift = 0;
+                }
+            });
+
+            return values;
+        }
+
+        /**
+         * Used to find the mapping for the given generated location; this is the last segment
+         * on the line which starts at or before the given column.
+         * 
+         * @param sourceMap The source map to search.
+         * @param line The zero based generated line.
+         * @param column The zero based generated column.
+         * @returns The mapping, or null if there isn't one.
+         */
+        private findMapping(sourceMap: ISourceMap, line: number, column: number): ISourceMapping {
+            var segments = sourceMap.lines[line];
+
+            if (!segments || segments.length === 0) {
+                return null;
+            }
+
+            return _.findLast(segments, (segment: ISourceMapping) => {
+                return segment.generatedColumn <= column;
+            }) || null;
+        }
+
+        //#endregion
+    }
+}
\ No newline at end of file
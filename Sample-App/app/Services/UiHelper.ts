@@ -46,7 +46,7 @@
 
         //#endregion
 
-        public static $inject = ["$rootScope", "$q", "$http", "$ionicModal", "Utilities", "Preferences"];
+        public static $inject = ["$rootScope", "$q", "$http", "$ionicModal", "Utilities", "Preferences", "Logger"];
 
         private $rootScope: ng.IRootScopeService;
         private $q: ng.IQService;
@@ -54,16 +54,18 @@
         private $ionicModal: any;
         private Utilities: Services.Utilities;
         private Preferences: Services.Preferences;
+        private Logger: Services.Logger;
 
         private isPinEntryOpen = false;
 
-        constructor($rootScope: ng.IRootScopeService, $q: ng.IQService, $http: ng.IHttpService, $ionicModal: any, Utilities: Services.Utilities, Preferences: Services.Preferences) {
+        constructor($rootScope: ng.IRootScopeService, $q: ng.IQService, $http: ng.IHttpService, $ionicModal: any, Utilities: Services.Utilities, Preferences: Services.Preferences, Logger: Services.Logger) {
             this.$rootScope = $rootScope;
             this.$q = $q;
             this.$http = $http;
             this.$ionicModal = $ionicModal;
             this.Utilities = Utilities;
             this.Preferences = Preferences;
+            this.Logger = Logger;
         }
 
         //#region Plug-in Accessors
@@ -374,6 +376,8 @@
             // Add the ID of this dialog to the list of dialogs that are open.
             UiHelper.openDialogIds.push(dialogId);
 
+            this.Logger.addBreadcrumb("dialog", "Opened dialog " + dialogId);
+
             // Define the arguments that will be used to create the modal instance.
             creationArgs = {
                 // Include the dialog ID so we can identify the dialog later on.
@@ -436,6 +440,31 @@
 
         //#endregion
 
+        //#region Logging
+
+        /**
+         * Used to get the icon that represents the given log level.
+         * 
+         * @param level The level of the log entry.
+         * @returns The name of the Ionicon (without the "ion-" prefix) to use.
+         */
+        public getLogLevelIcon(level: Models.LogLevel): string {
+            switch (level) {
+                case Models.LogLevel.Debug:
+                    return "bug";
+                case Models.LogLevel.Info:
+                    return "information-circled";
+                case Models.LogLevel.Warn:
+                    return "alert";
+                case Models.LogLevel.Fatal:
+                    return "nuclear";
+                default:
+                    return "alert-circled";
+            }
+        }
+
+        //#endregion
+
         //#region Helpers for the device_resume event
 
         public showPinEntryAfterResume(): ng.IPromise<void> {
@@ -2,6 +2,7 @@
 
     export class MenuViewModel {
         public categories: ViewModels.CategoryItemViewModel[];
+        public isServiceDegraded: boolean;
     }
 
 }
\ No newline at end of file
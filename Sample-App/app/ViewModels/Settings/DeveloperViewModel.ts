@@ -2,10 +2,22 @@
 
     export class DeveloperViewModel {
         mockApiRequests: boolean;
+        environments: Interfaces.ApiEnvironment[];
+        environmentName: string;
+        environmentBaseUrl: string;
+        environmentApiVersion: string;
+        signingKeyId: string;
+        signingKeyStatus: string;
+        authStrategy: string;
+        tokenExpiresAt: string;
+        cachedResponseCount: number;
         devicePlatform: string;
         loggingToLocalStorage: string;
         defaultStoragePathId: string;
         defaultStoragePath: string;
+        routeTimings: Models.TimingSummary[];
+        endpointTimings: Models.TimingSummary[];
+        queuedRequests: QueuedRequestViewModel[];
     }
 
 }
\ No newline at end of file
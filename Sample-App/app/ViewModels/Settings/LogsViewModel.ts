@@ -1,14 +1,42 @@
 ﻿module JustinCredible.SampleApp.ViewModels {
 
     export class LogsViewModel {
-        public logs: { [day: string]: LogEntryViewModel[] };
+        public logGroups: LogGroupViewModel[];
+        public filter: Models.LogFilter;
+        public levels: LogLevelOptionViewModel[];
+        public showFilters: boolean;
+        public totalCount: number;
+        public matchCount: number;
+        public hasMore: boolean;
 
         constructor() {
-            this.logs = {};
+            this.logGroups = [];
+            this.filter = new Models.LogFilter();
+            this.levels = [];
+            this.showFilters = false;
+            this.totalCount = 0;
+            this.matchCount = 0;
+            this.hasMore = false;
         }
     }
 
+    export class LogGroupViewModel {
+        public date: string;
+        public logEntries: LogEntryViewModel[];
+
+        constructor() {
+            this.logEntries = [];
+        }
+    }
+
+    export class LogLevelOptionViewModel {
+        public level: Models.LogLevel;
+        public name: string;
+        public selected: boolean;
+    }
+
     export class LogEntryViewModel extends Models.LogEntry {
+        public levelName: string;
         public iconType: string;
         public time: string;
         public date: string;
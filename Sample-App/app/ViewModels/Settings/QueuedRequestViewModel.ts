@@ -0,0 +1,17 @@
+﻿module JustinCredible.SampleApp.ViewModels {
+
+    export class QueuedRequestViewModel {
+        public id: string;
+        public description: string;
+        public status: string;
+        public details: string;
+
+        constructor(id: string, description: string, status: string, details: string) {
+            this.id = id;
+            this.description = description;
+            this.status = status;
+            this.details = details;
+        }
+    }
+
+}
\ No newline at end of file
@@ -5,8 +5,106 @@
  */
 declare module JustinCredible.SampleApp.DataTypes {
 
+    interface TokenParams {
+        token: string;
+    }
+
     interface TokenResponse {
+
+        /**
+         * The time at which the token expires, in milliseconds since the epoch.
+         */
         expires: number;
+
+        token: string;
+    }
+
+    /**
+     * The response from an OAuth 2.0 token endpoint (RFC 6749 section 5.1).
+     */
+    interface OAuth2TokenResponse {
+        access_token: string;
+        token_type: string;
+
+        /**
+         * The lifetime of the access token, in seconds.
+         */
+        expires_in: number;
+
+        refresh_token: string;
+    }
+
+    interface TokenCreateRequest {
+        userId: string;
+        password: string;
+    }
+
+    interface TokenRefreshRequest {
+        userId: string;
         token: string;
     }
+
+    interface LogUploadRequest {
+        entries: Models.LogEntry[];
+    }
+
+    interface LogUploadResponse {
+        accepted: number;
+    }
+
+    /**
+     * The paging parameters of requests for a list of items.
+     */
+    interface PageParams {
+
+        /**
+         * The one based number of the page to return; defaults to 1.
+         */
+        page?: number;
+
+        /**
+         * The number of items in each page.
+         */
+        pageSize?: number;
+
+        /**
+         * The name of the property to sort the items by; prefix it with a minus sign to sort in
+         * descending order (eg -name).
+         */
+        sort?: string;
+    }
+
+    /**
+     * A page of a list of items.
+     */
+    interface PagedResponse<T> {
+        items: T[];
+        page: number;
+        pageSize: number;
+        totalCount: number;
+        totalPages: number;
+    }
+
+    /**
+     * The error returned when the body of a request is not valid (400 or 422).
+     */
+    interface ValidationErrorResponse {
+        message: string;
+
+        /**
+         * The error messages, keyed by the name of the property that is not valid.
+         */
+        errors: { [property: string]: string };
+    }
+
+    interface Category {
+        id: number;
+        name: string;
+        icon: string;
+        order: number;
+    }
+
+    interface CategoryParams {
+        id: number;
+    }
 }
\ No newline at end of file
@@ -11,7 +11,14 @@ declare module JustinCredible.SampleApp.Interfaces {
      * An extension of the Angular RequestConfig interface which allows us to pass along a
      * few extra flags to control some featuers as defined in our HttpInterceptor.
      */
-    interface RequestConfig extends ng.IRequestConfig {
+    interface RequestConfig extends ng.IRequestConfig, RequestOptions {
+    }
+
+    /**
+     * The flags of Interfaces.RequestConfig without the method and URL of the request. This is
+     * used where the method and URL are determined by something else (eg the ApiClient).
+     */
+    interface RequestOptions extends ng.IRequestShortcutConfig {
 
         /**
          * Indicates that the user should be blocked during this request.
@@ -30,6 +37,908 @@ declare module JustinCredible.SampleApp.Interfaces {
          * HttpInterceptor defaults this to true.
          */
         showSpinner?: boolean;
+
+        /**
+         * Indicates that the request and its response should not be written to the logs.
+         * This is used by the LogShipper so that uploading logs doesn't create more logs.
+         * HttpInterceptor defaults this to false.
+         */
+        suppressLogging?: boolean;
+
+        /**
+         * The ID of the Logger timer that tracks the duration of this request. This is set by
+         * the HttpInterceptor and should not be set by callers.
+         */
+        timerId?: string;
+
+        /**
+         * If provided, failed requests (eg network failures or transient server errors) will
+         * be re-issued transparently according to this policy. Any properties that are not
+         * set use the HttpInterceptor's defaults. Requests are not retried by default.
+         */
+        retry?: RetryPolicy;
+
+        /**
+         * The number of times this request has been retried. This is set by the HttpInterceptor
+         * and should not be set by callers.
+         */
+        retryAttempt?: number;
+
+        /**
+         * True if the current authentication strategy added credentials to this request. This
+         * is set by the HttpInterceptor and should not be set by callers.
+         */
+        authenticated?: boolean;
+
+        /**
+         * Indicates that the HttpInterceptor should not attempt to refresh the token if this
+         * request is rejected, and should not hold this request while a refresh is in progress.
+         * This is used by the refresh request itself. HttpInterceptor defaults this to false.
+         */
+        skipTokenRefresh?: boolean;
+
+        /**
+         * Indicates that this request should always be sent, even if an identical GET request is
+         * already in progress; see HttpDeduplicator. HttpInterceptor defaults this to false.
+         */
+        skipDeduplication?: boolean;
+
+        /**
+         * True if the token was refreshed after this request was rejected and the request was
+         * replayed. This is set by the HttpInterceptor and should not be set by callers.
+         */
+        tokenRefreshAttempted?: boolean;
+
+        /**
+         * Indicates that if this request can't reach the server (eg the device is offline) it
+         * should be added to the RequestQueue and sent once the device is back online. This is
+         * only honored for POST, PUT, PATCH, and DELETE requests to our API endpoints (~).
+         * HttpInterceptor defaults this to false.
+         */
+        queueable?: boolean;
+
+        /**
+         * The ID of the RequestQueue entry for this request. This is set by the HttpInterceptor
+         * when the request is queued, and by the RequestQueue when it sends the request again.
+         * It should not be set by callers.
+         */
+        queuedRequestId?: string;
+
+        /**
+         * The URL of this request before the HttpInterceptor replaced the leading tilde with the
+         * base URL. This is set by the HttpInterceptor and should not be set by callers.
+         */
+        originalUrl?: string;
+
+        /**
+         * The correlation ID that is sent via the X-Request-ID header so this request can be
+         * found in the server's traces. Retried and replayed attempts keep the same ID. This is
+         * set by the HttpInterceptor and should not be set by callers.
+         */
+        requestId?: string;
+
+        /**
+         * The key of the CircuitBreaker circuit that this request belongs to. This is set by the
+         * HttpInterceptor and should not be set by callers.
+         */
+        circuitKey?: string;
+
+        /**
+         * True if this request is the probe of a half-open circuit. This is set by the
+         * HttpInterceptor and should not be set by callers.
+         */
+        circuitProbe?: boolean;
+
+        /**
+         * True if this request was rejected without being sent because its circuit is open; the
+         * rejected response has a status of 0 and a Models.CircuitOpenError as its data. This is
+         * set by the HttpInterceptor and should not be set by callers.
+         */
+        circuitOpen?: boolean;
+
+        /**
+         * Specifies how the HttpCache is used for this request; this only applies to GET requests
+         * to our API endpoints (~). HttpInterceptor defaults this to Models.CacheMode.Default.
+         */
+        cacheMode?: Models.CacheMode;
+
+        /**
+         * The key that identifies this request in the HttpCache. This is set by the HttpInterceptor
+         * and should not be set by callers.
+         */
+        cacheKey?: string;
+
+        /**
+         * True if the response to this request was served from the HttpCache. This is set by the
+         * HttpInterceptor and should not be set by callers.
+         */
+        servedFromCache?: boolean;
+
+        /**
+         * If provided, the request is aborted when this token is cancelled. Controllers should
+         * pass their own token (BaseController.cancellationToken) so that their requests are
+         * cancelled when the view is destroyed.
+         */
+        cancellationToken?: Models.CancellationToken;
+
+        /**
+         * The number of milliseconds after which each attempt of this request is aborted; zero
+         * means the request never times out. A numeric timeout property is used if this isn't
+         * provided. HttpInterceptor defaults this to HttpInterceptor.DEFAULT_TIMEOUT_IN_MILLISECONDS.
+         */
+        timeoutInMilliseconds?: number;
+
+        /**
+         * True if the request was aborted because its cancellation token was cancelled. This is
+         * set by the HttpInterceptor and should not be set by callers.
+         */
+        cancelled?: boolean;
+
+        /**
+         * True if the most recent attempt of this request was aborted because it took longer than
+         * its timeout. This is set by the HttpInterceptor and should not be set by callers.
+         */
+        timedOut?: boolean;
+
+        /**
+         * Stops watching for the timeout and cancellation of the current attempt of this request.
+         * This is set by the HttpInterceptor and should not be set by callers.
+         */
+        releaseTimeout?: () => void;
+
+        /**
+         * True while the request is counted as in progress by the HttpInterceptor (ie its spinner
+         * and blocking UI are shown). This is set by the HttpInterceptor and should not be set by
+         * callers.
+         */
+        inProgress?: boolean;
+
+        /**
+         * Invoked as the data of the request is sent (eg for uploads made via the FileUploader).
+         * This is invoked within a digest cycle. Requests sent via $http don't report their
+         * progress, since Angular doesn't expose the progress events of its requests.
+         */
+        progress?: (progress: TransferProgress) => void;
+
+        /**
+         * If blocking is true, indicates that the progress of the request is shown with a bar
+         * instead of a circular indicator once it is known. HttpInterceptor defaults this to false.
+         */
+        progressBar?: boolean;
+
+        /**
+         * The percentage that the blocking progress indicator was last shown with. This is set
+         * by the HttpInterceptor and should not be set by callers.
+         */
+        progressPercent?: number;
+
+        /**
+         * The time (in milliseconds since the epoch) at which the request first reported its
+         * progress. This is set by the HttpInterceptor and should not be set by callers.
+         */
+        progressStartedAt?: number;
+
+        /**
+         * True if the request should be signed even though its URL isn't one of the signed paths
+         * of the current environment; see Interfaces.RequestSigningConfig. The environment must
+         * still have a signing configuration and key.
+         */
+        sign?: boolean;
+
+        /**
+         * The signature that the current attempt of this request was sent with. This is set by
+         * the HttpInterceptor and should not be set by callers.
+         */
+        signature?: Models.RequestSignature;
+
+        /**
+         * True if the request was resent because the server rejected a signature that was made
+         * with a clock that was out of sync with its own. This is set by the HttpInterceptor and
+         * should not be set by callers.
+         */
+        signatureRetried?: boolean;
+
+        /**
+         * True if the request was rejected without being sent because it could not be signed
+         * (eg the key for the environment isn't available); the rejected response has a status of
+         * 0 and the Error as its data. This is set by the HttpInterceptor and should not be set
+         * by callers.
+         */
+        signingFailed?: boolean;
+    }
+
+    /**
+     * Describes how much of the data of a request has been sent.
+     */
+    interface TransferProgress {
+
+        /**
+         * The number of bytes that have been sent.
+         */
+        loaded: number;
+
+        /**
+         * The total number of bytes to send, or zero if this isn't known.
+         */
+        total: number;
+
+        /**
+         * True if the total number of bytes is known.
+         */
+        lengthComputable: boolean;
+
+        /**
+         * The percentage (0 - 100) of bytes that have been sent, or null if the total isn't known.
+         */
+        percent: number;
+    }
+
+    /**
+     * The configuration of an upload made via the FileUploader service; this allows the
+     * flags of Interfaces.RequestConfig to be used along with a description of the file.
+     */
+    interface UploadConfig extends RequestConfig {
+
+        /**
+         * The root path that the path of the file is relative to. FileUploader defaults this to
+         * FileUtilities.getDefaultRootPath().
+         */
+        rootPath?: string;
+
+        /**
+         * The name of the form element that the file is sent as. FileUploader defaults this to "file".
+         */
+        fileKey?: string;
+
+        /**
+         * The file name that is sent to the server. FileUploader defaults this to the name of the file.
+         */
+        fileName?: string;
+
+        /**
+         * The MIME type of the file. FileUploader defaults this to application/octet-stream.
+         */
+        mimeType?: string;
+
+        /**
+         * Additional form fields that are sent along with the file.
+         */
+        fields?: { [name: string]: string };
+    }
+
+    /**
+     * Describes the configuration for authenticating requests to our API endpoints.
+     * This is provided via the authConfig constant in Application.ts.
+     */
+    interface AuthConfig {
+
+        /**
+         * The name of the service that implements AuthStrategy to use; one of BasicAuthStrategy,
+         * BearerAuthStrategy, OAuth2AuthStrategy, or ApiKeyAuthStrategy.
+         */
+        strategy: string;
+
+        /**
+         * Required when using the ApiKeyAuthStrategy.
+         */
+        apiKey?: ApiKeyConfig;
+
+        /**
+         * Required when using the OAuth2AuthStrategy.
+         */
+        oauth2?: OAuth2Config;
+    }
+
+    /**
+     * Describes the configuration for the ApiKeyAuthStrategy.
+     */
+    interface ApiKeyConfig {
+
+        /**
+         * The name of the HTTP header that the key is sent in (eg X-API-Key).
+         */
+        headerName: string;
+
+        key: string;
+    }
+
+    /**
+     * Describes the configuration for the OAuth2AuthStrategy, which uses the authorization
+     * code grant with PKCE (RFC 7636).
+     */
+    interface OAuth2Config {
+
+        /**
+         * The URL of the authorization server's page that the user signs in on.
+         */
+        authorizationUrl: string;
+
+        /**
+         * The URL of the authorization server's token endpoint.
+         */
+        tokenUrl: string;
+
+        clientId: string;
+
+        /**
+         * The URL the authorization server redirects to once the user has signed in. This is
+         * never loaded; the InAppBrowser is closed as soon as it navigates to this URL.
+         */
+        redirectUri: string;
+
+        /**
+         * The space delimited scopes to request.
+         */
+        scope: string;
+    }
+
+    /**
+     * Describes a way of authenticating requests to our API endpoints. Implementations are
+     * registered as services and selected via AuthConfig.strategy.
+     */
+    interface AuthStrategy {
+
+        /**
+         * Used to add the user's credentials to the given request headers.
+         * 
+         * @param headers The headers of the request, which will be modified.
+         * @returns True if credentials were added, false if there are no credentials.
+         */
+        applyCredentials(headers: { [name: string]: any }): boolean;
+
+        /**
+         * Used to obtain new credentials after the current ones were rejected or have expired.
+         * 
+         * @returns A promise that will be resolved once the new credentials have been saved.
+         */
+        refresh(): ng.IPromise<void>;
+
+        /**
+         * Used to interactively sign the user in.
+         * 
+         * @returns A promise that will be resolved once the credentials have been saved, or
+         *          rejected if the strategy doesn't support signing in this way.
+         */
+        login(): ng.IPromise<void>;
+    }
+
+    /**
+     * Describes the configuration for refreshing the user's token when the server rejects it.
+     * This is provided via the tokenRefreshConfig constant in Application.ts.
+     */
+    interface TokenRefreshConfig {
+
+        /**
+         * True to attempt to refresh the token; if false the rejection is broadcast immediately.
+         */
+        enabled: boolean;
+
+        /**
+         * The URL of the endpoint that exchanges the current token for a new one. The current
+         * user ID and token are POSTed as a DataTypes.TokenRefreshRequest.
+         */
+        url: string;
+
+        /**
+         * Responses with these status codes trigger a refresh (eg 401 and 403).
+         */
+        statuses: number[];
+    }
+
+    /**
+     * Describes one of the servers that hosts our API (eg development or production).
+     */
+    interface ApiEnvironment {
+
+        /**
+         * The unique name of the environment; this is what is persisted when it is selected.
+         */
+        name: string;
+
+        /**
+         * The name of the environment as shown to the user.
+         */
+        label: string;
+
+        /**
+         * The URL that API requests are made relative to (ie the replacement for the tilde).
+         */
+        baseUrl: string;
+
+        /**
+         * The version of the API to request via the X-API-Version header.
+         */
+        apiVersion: string;
+
+        /**
+         * True if the requests should be handled by the mocked APIs instead of a server.
+         */
+        mock: boolean;
+
+        /**
+         * If provided, requests to the given paths are signed using the key that was stored for
+         * this environment via the RequestSigner.
+         */
+        signing?: RequestSigningConfig;
+    }
+
+    /**
+     * Describes which requests to an API environment are signed with an HMAC-SHA256 signature;
+     * see Services.RequestSigner.
+     */
+    interface RequestSigningConfig {
+
+        /**
+         * Identifies the key to the server; this is sent along with the signature.
+         */
+        keyId: string;
+
+        /**
+         * The API URLs whose requests are signed, including the URLs beneath them (eg ~/partners
+         * signs ~/partners/1/orders). Other requests can be signed via RequestConfig.sign.
+         */
+        paths: string[];
+    }
+
+    /**
+     * Describes the configuration for the ApiEnvironments service.
+     * This is provided via the apiEnvironmentsConfig constant in Application.ts.
+     */
+    interface ApiEnvironmentsConfig {
+
+        /**
+         * The name of the environment to use until the user selects a different one.
+         */
+        defaultEnvironment: string;
+
+        /**
+         * All of the environments that can be selected.
+         */
+        environments: ApiEnvironment[];
+    }
+
+    /**
+     * Describes a mocked API endpoint which is used when API requests are mocked; see
+     * Services.MockRoutes and Services.MockRouter.
+     * 
+     * The response is built from the status, headers, and data or fixture of the route, unless
+     * it has a respond function, which can build the response from the request instead.
+     */
+    interface MockRoute {
+
+        /**
+         * The HTTP method of the endpoint (eg GET).
+         */
+        method: string;
+
+        /**
+         * The API URL of the endpoint, with a placeholder for each path parameter (eg
+         * ~/categories/:id). The query string is not part of the URL; it is available via
+         * MockRequest.query. URLs that don't start with a tilde are matched against the full URL.
+         */
+        url: string;
+
+        /**
+         * The status code of the response; defaults to 200.
+         */
+        status?: number;
+
+        /**
+         * The headers of the response, in addition to a JSON Content-Type.
+         */
+        headers?: { [name: string]: string };
+
+        /**
+         * The body of the response.
+         */
+        data?: any;
+
+        /**
+         * The name of the JSON file under the fixtures folder to use as the body of the response
+         * (eg categories/list.json).
+         */
+        fixture?: string;
+
+        /**
+         * If provided, invoked to build the response to each request. Returning null responds
+         * with a 404, and throwing an exception responds with a 500.
+         */
+        respond?: (request: MockRequest, $injector: ng.auto.IInjectorService) => MockResponse;
+    }
+
+    /**
+     * Describes a collection of the fake REST backend that is used when API requests are mocked;
+     * see Services.MockRoutes and Services.MockBackend.
+     * 
+     * The collection is available at its URL (list and create) and at its URL followed by the
+     * ID of an item (read, update, and delete).
+     */
+    interface MockCollection {
+
+        /**
+         * The name that the items of the collection are persisted under (eg categories).
+         */
+        name: string;
+
+        /**
+         * The API URL of the collection (eg ~/categories).
+         */
+        url: string;
+
+        /**
+         * The name of the JSON file under the fixtures folder that contains the array of items
+         * the collection starts with (or is reset to).
+         */
+        fixture?: string;
+
+        /**
+         * The number of items in each page of the list if the request doesn't specify one;
+         * defaults to 20.
+         */
+        pageSize?: number;
+
+        /**
+         * The properties that must have a value when an item is created or updated.
+         */
+        required?: string[];
+
+        /**
+         * If provided, invoked to validate an item before it is created or updated, in addition
+         * to the required properties.
+         * 
+         * @param item The item as it will be stored.
+         * @param items The other items of the collection.
+         * @returns A dictionary of property names to error messages, or null if the item is valid.
+         */
+        validate?: (item: any, items: any[]) => { [property: string]: string };
+
+        /**
+         * True if requests without an Authorization header are rejected with a 401.
+         */
+        requireAuthorization?: boolean;
+    }
+
+    /**
+     * Describes a request that is handled by a mocked API endpoint.
+     */
+    interface MockRequest {
+        method: string;
+
+        /**
+         * The full URL of the request, including the query string.
+         */
+        url: string;
+
+        /**
+         * The values of the path parameters, keyed by the names of their placeholders.
+         */
+        params: { [name: string]: string };
+
+        /**
+         * The values of the query string parameters; parameters that are repeated have an array of values.
+         */
+        query: { [name: string]: any };
+
+        headers: { [name: string]: string };
+
+        /**
+         * The body of the request as it was sent.
+         */
+        body: string;
+
+        /**
+         * The body of the request parsed as JSON, or null if it isn't JSON.
+         */
+        data: any;
+    }
+
+    /**
+     * Describes the response of a mocked API endpoint, as returned by MockRoute.respond. Any
+     * property that isn't provided is taken from the route.
+     */
+    interface MockResponse {
+        status?: number;
+        headers?: { [name: string]: string };
+        data?: any;
+
+        /**
+         * The name of the JSON file under the fixtures folder to use as the body of the response.
+         */
+        fixture?: string;
+    }
+
+    /**
+     * Describes the configuration for the HttpCache.
+     * This is provided via the httpCacheConfig constant in Application.ts.
+     */
+    interface HttpCacheConfig {
+
+        /**
+         * True to cache the responses to GET requests; if false every request goes to the network.
+         */
+        enabled: boolean;
+
+        /**
+         * The maximum number of responses to keep; the least recently used are evicted first.
+         */
+        maxEntries: number;
+
+        /**
+         * The names of the request headers whose values are part of the key for a cached
+         * response (eg Accept and Authorization).
+         */
+        keyHeaders: string[];
+    }
+
+    /**
+     * Describes the configuration for the CircuitBreaker.
+     * This is provided via the circuitBreakerConfig constant in Application.ts.
+     */
+    interface CircuitBreakerConfig {
+
+        /**
+         * True to stop sending API requests to services that are failing.
+         */
+        enabled: boolean;
+
+        /**
+         * The number of consecutive failed requests after which a circuit is opened.
+         */
+        failureThreshold: number;
+
+        /**
+         * How long an open circuit rejects requests before a probe request is allowed, in seconds.
+         */
+        cooldownInSeconds: number;
+
+        /**
+         * The status codes of responses that count as failures; a status of 0 indicates the
+         * request failed before a response was received (eg it timed out).
+         */
+        failureStatuses: number[];
+
+        /**
+         * True to keep a separate circuit for each endpoint group (ie the first segment of the
+         * path, such as ~/categories) of a host; false to keep one circuit per host.
+         */
+        groupByEndpoint: boolean;
+    }
+
+    /**
+     * Describes when and how often a failed HTTP request should be retried.
+     */
+    interface RetryPolicy {
+
+        /**
+         * The maximum number of attempts, including the initial request.
+         */
+        maxAttempts?: number;
+
+        /**
+         * The delay before the first retry, in milliseconds. This doubles after each
+         * consecutive failure, up to maxDelayInMilliseconds.
+         */
+        delayInMilliseconds?: number;
+
+        /**
+         * The maximum delay between retries, in milliseconds.
+         */
+        maxDelayInMilliseconds?: number;
+
+        /**
+         * The fraction (from 0 to 1) of each delay that is randomized, so that many clients
+         * don't retry at the same moment. For example, 0.5 with a delay of 1000 results
+         * in a delay between 500 and 1500 milliseconds.
+         */
+        jitter?: number;
+
+        /**
+         * Only responses with these status codes are retried; a status of 0 indicates
+         * the request failed before a response was received (eg no network connection).
+         */
+        retryableStatuses?: number[];
+
+        /**
+         * True to also retry requests with methods that are not idempotent (eg POST). Only
+         * set this if the server can safely handle the request being received more than once.
+         */
+        retryNonIdempotentMethods?: boolean;
+    }
+
+    /**
+     * Describes the configuration for the Logger service.
+     * This is provided via the loggerConfig constant in Application.ts.
+     */
+    interface LoggerConfig {
+
+        /**
+         * Log entries with a severity lower than this level will be discarded.
+         */
+        minimumLevel: Models.LogLevel;
+
+        /**
+         * Limits on how many log entries are retained; the oldest entries are pruned first.
+         */
+        retentionPolicy: LogRetentionPolicy;
+
+        /**
+         * The number of breadcrumbs to keep in memory; these are attached to error entries.
+         */
+        maxBreadcrumbs: number;
+
+        /**
+         * The number of timing entries to keep in memory for the performance summary.
+         */
+        maxTimings: number;
+
+        /**
+         * Controls which sensitive values are removed from entries before they are written.
+         */
+        redaction: RedactionConfig;
+
+        /**
+         * Controls the uploading of log entries to the server via the LogShipper.
+         */
+        shipping: LogShippingConfig;
+    }
+
+    /**
+     * Describes the values that should be redacted from log entries by the Redactor.
+     */
+    interface RedactionConfig {
+
+        /**
+         * The value that redacted header and body values are replaced with.
+         */
+        replacement: string;
+
+        /**
+         * The names of the HTTP headers whose values will be redacted (not case sensitive).
+         */
+        headers: string[];
+
+        /**
+         * Dot delimited paths of values to redact from JSON bodies (eg "user.pin").
+         * A segment of "*" matches any property or array index and a segment of "**"
+         * matches any number of levels (eg "**.token" matches a token at any depth).
+         */
+        bodyPaths: string[];
+
+        /**
+         * Patterns that will be replaced in URLs, headers, bodies, and messages.
+         */
+        patterns: RedactionPattern[];
+    }
+
+    /**
+     * Describes a regular expression used to redact text and its replacement value.
+     */
+    interface RedactionPattern {
+
+        /**
+         * The expression to match; use the global flag to replace every match.
+         */
+        pattern: RegExp;
+
+        /**
+         * The replacement value; this may reference capture groups (eg $1).
+         */
+        replacement: string;
+    }
+
+    /**
+     * Describes the configuration for uploading log entries to the server.
+     */
+    interface LogShippingConfig {
+
+        /**
+         * True to periodically upload log entries to the server.
+         */
+        enabled: boolean;
+
+        /**
+         * Only log entries with these levels will be uploaded.
+         */
+        levels: Models.LogLevel[];
+
+        /**
+         * The maximum number of log entries to upload in a single request.
+         */
+        maxBatchSize: number;
+
+        /**
+         * How often to check for log entries that need to be uploaded, in seconds.
+         */
+        intervalInSeconds: number;
+
+        /**
+         * The delay before retrying after the first failed upload, in seconds. This
+         * doubles after each consecutive failure, up to maxRetryDelayInSeconds.
+         */
+        retryDelayInSeconds: number;
+
+        /**
+         * The maximum delay between retries, in seconds.
+         */
+        maxRetryDelayInSeconds: number;
+    }
+
+    /**
+     * Describes the limits used when pruning log entries. A limit of zero or
+     * null disables that particular check.
+     */
+    interface LogRetentionPolicy {
+
+        /**
+         * The maximum number of log entries to keep.
+         */
+        maxEntries: number;
+
+        /**
+         * The maximum number of bytes that all of the log entries may occupy.
+         */
+        maxTotalBytes: number;
+
+        /**
+         * The maximum age of a log entry, in days.
+         */
+        maxAgeInDays: number;
+    }
+
+    /**
+     * Describes the diagnostic bundle created by the Diagnostics service.
+     * 
+     * Any change to this structure must increment Diagnostics.BUNDLE_FORMAT_VERSION.
+     */
+    interface DiagnosticBundle {
+
+        /**
+         * The version of the bundle's format (see Diagnostics.BUNDLE_FORMAT_VERSION).
+         */
+        formatVersion: number;
+
+        /**
+         * The date/time the bundle was created in ISO 8601 format.
+         */
+        createdAt: string;
+
+        versionInfo: VersionInfo;
+
+        /**
+         * The details of the device; each is null if the Cordova device plugin isn't available.
+         */
+        device: DiagnosticDeviceInfo;
+
+        /**
+         * The user's preferences with sensitive values redacted.
+         */
+        preferences: { [name: string]: any };
+
+        storage: DiagnosticStorageInfo;
+
+        /**
+         * The filter that was used to select the log entries, or null if all entries are included.
+         */
+        filter: Models.LogFilter;
+
+        /**
+         * The log entries, oldest first.
+         */
+        logEntries: Models.LogEntry[];
+    }
+
+    interface DiagnosticDeviceInfo {
+        platform: string;
+        version: string;
+        model: string;
+        cordova: string;
+    }
+
+    interface DiagnosticStorageInfo {
+        defaultRootPathId: string;
+        defaultRootPath: string;
+        logDirectory: string;
+        logToLocalStorage: boolean;
     }
 
     interface VersionInfo {
@@ -7,6 +7,12 @@
 
 interface Window {
 
+    /**
+     * The Web Cryptography API's source of cryptographically random values. This may not
+     * be available on older devices.
+     */
+    crypto: RandomSource;
+
     /**
      * The StatusBar object provides some functions to customize the iOS and Android StatusBar.
      * 